@@ -0,0 +1,79 @@
+import os from "os";
+import qrcode from "qrcode-terminal";
+
+/**
+ * Shareable invite to a room:
+ *   lanforge://<host>:<port>/<joinCode>?room=<roomId>[&hint=<passwordHint>]
+ * The hint is shown to whoever opens the invite (e.g. "ask Sam"); the password
+ * itself never goes into an invite.
+ */
+export interface Invite {
+    host: string;          // IP or hostname of the server (IPv6 without brackets)
+    port: number;
+    roomId: string;
+    joinCode: string;
+    passwordHint?: string;
+}
+
+export const INVITE_SCHEME = "lanforge:";
+
+export function createInviteUri(invite: Invite): string {
+    const host = invite.host.includes(":") ? `[${invite.host}]` : invite.host;
+    const params = new URLSearchParams({ room: invite.roomId });
+    if (invite.passwordHint) params.set("hint", invite.passwordHint);
+
+    return `${INVITE_SCHEME}//${host}:${invite.port}/${encodeURIComponent(invite.joinCode)}?${params}`;
+}
+
+// Throws INVALID_INVITE if `uri` is not a complete lanforge:// invite.
+export function parseInviteUri(uri: string): Invite {
+    let url: URL;
+    try {
+        url = new URL(uri.trim());
+    } catch {
+        throw new Error("INVALID_INVITE");
+    }
+
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    const port = parseInt(url.port, 10);
+    const joinCode = decodeURIComponent(url.pathname.replace(/^\//, "")).toUpperCase();
+    const roomId = url.searchParams.get("room");
+
+    if (url.protocol !== INVITE_SCHEME || !host || !roomId) throw new Error("INVALID_INVITE");
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) throw new Error("INVALID_INVITE");
+    if (!/^[A-Z0-9]+$/.test(joinCode)) throw new Error("INVALID_INVITE");
+
+    const invite: Invite = { host, port, roomId, joinCode };
+    const hint = url.searchParams.get("hint");
+    if (hint) invite.passwordHint = hint;
+    return invite;
+}
+
+export function isInviteUri(text: string): boolean {
+    return text.trim().toLowerCase().startsWith(`${INVITE_SCHEME}//`);
+}
+
+// WebSocket URL of the server an invite points to.
+export function inviteServerUrl(invite: Invite): string {
+    const host = invite.host.includes(":") ? `[${invite.host}]` : invite.host;
+    return `ws://${host}:${invite.port}`;
+}
+
+/**
+ * First external IPv4 address of this device, which other devices on the LAN
+ * can reach us at. Falls back to localhost when there is none.
+ */
+export function lanAddress(): string {
+    for (const addresses of Object.values(os.networkInterfaces())) {
+        const external = (addresses || []).find(a => a.family === "IPv4" && !a.internal);
+        if (external) return external.address;
+    }
+    return "localhost";
+}
+
+// Invite rendered as a QR code in terminal block characters, for a phone camera.
+export function renderInviteQr(uri: string): Promise<string> {
+    return new Promise((resolve) => {
+        qrcode.generate(uri, { small: true }, resolve);
+    });
+}
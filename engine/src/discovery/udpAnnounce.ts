@@ -5,6 +5,9 @@ const BROADCAST_ADDRESS = "255.255.255.255";
 const DISCOVERY_PORT = 42069;
 const ANNOUNCE_INTERVAL_MS = 3000;
 
+// Announced instead of the join code of a private room
+export const HIDDEN_JOIN_CODE = "-";
+
 let socket: dgram.Socket | null = null;
 let intervalId: NodeJS.Timeout | null = null;
 
@@ -13,6 +16,7 @@ let intervalId: NodeJS.Timeout | null = null;
  * Starts periodic UDP announcements of the current room.
  * Payload format: LANFORGE_HOST <roomId> <joinCode> <hostId> <port>
  * Note: IP is not sent; receivers infer it from rinfo.address.
+ * Private rooms announce HIDDEN_JOIN_CODE (only while their members migrate).
  */
 export function startAnnounce(
     roomId: string,
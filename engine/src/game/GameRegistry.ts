@@ -0,0 +1,35 @@
+import { GameModule } from "./types";
+
+/* GameRegistry */
+
+// Keeps the game modules a server is able to host, keyed by module id.
+export class GameRegistry {
+  private modules = new Map<string, GameModule<any, any>>();
+
+  register(module: GameModule<any, any>): void {
+    if (this.modules.has(module.id)) {
+      throw new Error("GAME_ALREADY_REGISTERED");
+    }
+    this.modules.set(module.id, module);
+  }
+
+  unregister(moduleId: string): void {
+    this.modules.delete(moduleId);
+  }
+
+  get(moduleId: string): GameModule<any, any> | undefined {
+    return this.modules.get(moduleId);
+  }
+
+  has(moduleId: string): boolean {
+    return this.modules.has(moduleId);
+  }
+
+  list(): GameModule<any, any>[] {
+    return [...this.modules.values()];
+  }
+}
+
+// Shared registry used by servers that are not given one explicitly,
+// so a server started during host migration can host the same games.
+export const defaultGameRegistry = new GameRegistry();
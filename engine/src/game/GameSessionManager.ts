@@ -0,0 +1,638 @@
+import { randomBytes } from "crypto";
+import { createUniqueId } from "../utils/id";
+import { Room } from "../server/RoomManager";
+import { GameRegistry } from "./GameRegistry";
+import { InputBuffer } from "./InputBuffer";
+import { MatchResult } from "../network/payloads";
+import { MatchRecord, MatchRecorder } from "./MatchRecorder";
+import { SeededRng } from "./SeededRng";
+import {
+  GameAction,
+  GameModule,
+  GameSession,
+  TurnTimer,
+  TURN_TIMEOUT_ACTION,
+  isRealtimeModule,
+} from "./types";
+
+/* Constants */
+
+const MAX_SESSIONS_PER_ROOM = 8;
+
+/* GameSessionManager */
+
+// Runs the game sessions of rooms using the modules available in a registry.
+// A room may hold several independent sessions; each is addressed by sessionId.
+// Errors are thrown as Error(code) like RoomManager does.
+export class GameSessionManager {
+  // Pending real-time inputs per gameId (transient, never part of a snapshot)
+  private inputBuffers = new Map<string, InputBuffer>();
+
+  // Action log per gameId. A host restored mid-game starts a new log from the restored state.
+  private recorders = new Map<string, MatchRecorder>();
+
+  constructor(private readonly registry: GameRegistry) { }
+
+  /* Session Lifecycle */
+
+  // Opens a new session in "waiting" state; the creator owns it and is its first player.
+  createSession(
+    room: Room,
+    ownerDeviceId: string,
+    moduleId: string,
+    players: string[] = [ownerDeviceId]
+  ): GameSession {
+    this.requireMember(room, ownerDeviceId);
+
+    const module = this.registry.get(moduleId);
+    if (!module) throw new Error("UNKNOWN_GAME");
+
+    if (room.sessions.length >= MAX_SESSIONS_PER_ROOM) {
+      throw new Error("TOO_MANY_SESSIONS");
+    }
+
+    for (const deviceId of players) {
+      this.requireSeatable(room, deviceId);
+      if (this.findPlayingSession(room, deviceId)) {
+        throw new Error("ALREADY_IN_SESSION");
+      }
+    }
+
+    const session: GameSession = {
+      sessionId: createUniqueId("session-"),
+      ownerDeviceId,
+      gameId: null,
+      moduleId: module.id,
+      moduleVersion: module.version,
+      type: module.type,
+      players: [...players],
+      spectators: [],
+      lobby: { ready: [], seats: {}, teams: {} },
+      state: null,
+      sequence: 0,
+      tick: 0,
+      seed: 0,
+      rngCursor: 0,
+      lastInputSeq: {},
+      status: "waiting",
+      startedAt: null,
+      turnTimer: null,
+    };
+
+    room.sessions.push(session);
+    return session;
+  }
+
+  // Adds a session rebuilt from a snapshot (see restoreGameSession).
+  restoreSession(room: Room, session: GameSession): void {
+    room.sessions.push(session);
+  }
+
+  joinSession(room: Room, sessionId: string, deviceId: string, asSpectator: boolean): GameSession {
+    this.requireMember(room, deviceId);
+    const session = this.getSession(room, sessionId);
+
+    if (session.players.includes(deviceId) || session.spectators.includes(deviceId)) {
+      throw new Error("ALREADY_IN_SESSION");
+    }
+
+    if (asSpectator) {
+      session.spectators.push(deviceId);
+      return session;
+    }
+
+    // Seats are fixed once a game has started
+    if (session.status !== "waiting") {
+      throw new Error("SESSION_IN_PROGRESS");
+    }
+
+    this.requireSeatable(room, deviceId);
+    if (this.findPlayingSession(room, deviceId)) {
+      throw new Error("ALREADY_IN_SESSION");
+    }
+
+    const maxPlayers = this.getModule(session).maxPlayers;
+    if (maxPlayers !== undefined && session.players.length >= maxPlayers) {
+      throw new Error("SESSION_FULL");
+    }
+
+    session.players.push(deviceId);
+    return session;
+  }
+
+  // Removes a participant. Returns null if the session was closed because nobody is left.
+  leaveSession(room: Room, sessionId: string, deviceId: string): GameSession | null {
+    const session = this.getSession(room, sessionId);
+
+    if (!session.players.includes(deviceId) && !session.spectators.includes(deviceId)) {
+      throw new Error("NOT_IN_SESSION");
+    }
+
+    session.spectators = session.spectators.filter(id => id !== deviceId);
+
+    // A running game keeps its seats so the match stays consistent
+    if (session.status !== "running") {
+      session.players = session.players.filter(id => id !== deviceId);
+      session.lobby.ready = session.lobby.ready.filter(id => id !== deviceId);
+      delete session.lobby.seats[deviceId];
+      delete session.lobby.teams[deviceId];
+    }
+
+    if (session.players.length === 0 && session.spectators.length === 0) {
+      this.closeSession(room, session);
+      return null;
+    }
+
+    if (session.ownerDeviceId === deviceId && session.players.length > 0) {
+      session.ownerDeviceId = session.players[0];
+    }
+
+    return session;
+  }
+
+  // Drops a member who left the room from every session it took part in.
+  removeMember(room: Room, deviceId: string): void {
+    for (const session of [...room.sessions]) {
+      if (session.players.includes(deviceId) || session.spectators.includes(deviceId)) {
+        this.leaveSession(room, session.sessionId, deviceId);
+      }
+    }
+  }
+
+  /* Lobby */
+
+  setReady(room: Room, sessionId: string, deviceId: string, ready: boolean): GameSession {
+    const session = this.getLobbySession(room, sessionId, deviceId);
+
+    session.lobby.ready = session.lobby.ready.filter(id => id !== deviceId);
+    if (ready) session.lobby.ready.push(deviceId);
+    return session;
+  }
+
+  // Moves a player to a seat and/or team. Who may move whom is checked by the
+  // server's permissions. The moved player has to ready up again.
+  assignSeat(
+    room: Room,
+    sessionId: string,
+    targetDeviceId: string,
+    choice: { seat?: number; team?: number }
+  ): GameSession {
+    const session = this.getLobbySession(room, sessionId, targetDeviceId);
+    const module = this.getModule(session);
+
+    const { seat, team } = choice;
+
+    if (seat !== undefined) {
+      const seatCount = module.maxPlayers ?? session.players.length;
+      if (!Number.isInteger(seat) || seat < 0 || seat >= seatCount) {
+        throw new Error("INVALID_SEAT");
+      }
+      const holder = Object.keys(session.lobby.seats).find(id => session.lobby.seats[id] === seat);
+      if (holder && holder !== targetDeviceId) {
+        throw new Error("SEAT_TAKEN");
+      }
+    }
+
+    if (team !== undefined) {
+      if (!module.teams || !Number.isInteger(team) || team < 0 || team >= module.teams.count) {
+        throw new Error("INVALID_TEAM");
+      }
+      const members = Object.keys(session.lobby.teams)
+        .filter(id => id !== targetDeviceId && session.lobby.teams[id] === team);
+      if (module.teams.maxSize !== undefined && members.length >= module.teams.maxSize) {
+        throw new Error("TEAM_FULL");
+      }
+    }
+
+    if (seat !== undefined) session.lobby.seats[targetDeviceId] = seat;
+    if (team !== undefined) session.lobby.teams[targetDeviceId] = team;
+    session.lobby.ready = session.lobby.ready.filter(id => id !== targetDeviceId);
+    return session;
+  }
+
+  /* Start Game */
+
+  // Starts (or restarts, after a finished game) the game of a session, once every
+  // player is ready and the module's player and team constraints are met.
+  // Who may start it is checked by the server's permissions.
+  startGame(room: Room, sessionId: string): GameSession {
+    const session = this.getSession(room, sessionId);
+
+    if (session.status === "running") {
+      throw new Error("GAME_ALREADY_RUNNING");
+    }
+
+    const module = this.registry.get(session.moduleId);
+    if (!module) throw new Error("UNKNOWN_GAME");
+
+    if (session.players.length < Math.max(1, module.minPlayers ?? 1)) {
+      throw new Error("NOT_ENOUGH_PLAYERS");
+    }
+    if (module.maxPlayers !== undefined && session.players.length > module.maxPlayers) {
+      throw new Error("TOO_MANY_PLAYERS");
+    }
+    if (session.players.some(id => !session.lobby.ready.includes(id))) {
+      throw new Error("PLAYERS_NOT_READY");
+    }
+
+    const players = this.seatPlayers(session);
+    const teams = module.teams ? this.formTeams(session, players, module) : undefined;
+
+    session.players = players;
+    session.lobby = {
+      ready: [],   // a restart needs a new ready-check
+      seats: Object.fromEntries(players.map((id, seat) => [id, seat])),
+      teams: teams || {},
+    };
+
+    session.gameId = createUniqueId("game-");
+    session.moduleVersion = module.version;
+    session.seed = randomBytes(4).readUInt32LE(0);
+    session.rngCursor = 0;
+    session.state = this.withRng(session, rng => module.getInitialState([...players], teams, rng));
+    session.sequence = 0;
+    session.tick = 0;
+    session.lastInputSeq = {};
+    session.status = "running";
+    session.startedAt = Date.now();
+    session.turnTimer = this.nextTurnTimer(module, session, Date.now());
+
+    this.getRecorder(session, module);
+    return session;
+  }
+
+  // Quick start: opens a session seating `players`, skips the ready-check and
+  // starts it. A game that cannot start leaves no session behind.
+  quickStart(room: Room, ownerDeviceId: string, moduleId: string, players: string[]): GameSession {
+    const session = this.createSession(room, ownerDeviceId, moduleId, players);
+    try {
+      session.lobby.ready = [...session.players];
+      return this.startGame(room, session.sessionId);
+    } catch (err) {
+      this.closeSession(room, session);
+      throw err;
+    }
+  }
+
+  /* Apply Action */
+
+  applyAction(
+    room: Room,
+    sessionId: string,
+    playerId: string,
+    actionType: string,
+    data: unknown,
+    inputSeq?: number
+  ): GameSession {
+    const session = this.getRunningSession(room, sessionId, playerId, actionType);
+    const module = this.getModule(session);
+
+    try {
+      return this.commitAction(session, module, { playerId, actionType, data, inputSeq });
+    } finally {
+      // Rejected inputs are processed too, so the client stops predicting them
+      this.acknowledgeInput(session, playerId, inputSeq);
+    }
+  }
+
+  /* Real-time Inputs */
+
+  // Buffers an input for a real-time game instead of applying it on arrival.
+  // Returns the tick the input is scheduled for.
+  queueInput(
+    room: Room,
+    sessionId: string,
+    playerId: string,
+    actionType: string,
+    data: unknown,
+    targetTick?: number,
+    inputSeq?: number
+  ): number {
+    const session = this.getRunningSession(room, sessionId, playerId, actionType);
+    return this.getInputBuffer(session).add({ playerId, actionType, data, inputSeq }, session.tick, targetTick);
+  }
+
+  // Advances a real-time game by one fixed step: applies the inputs buffered
+  // for the next tick, then lets the module simulate. Invalid inputs, and inputs
+  // the module fails on, are dropped. Errors from step() are left to the caller.
+  stepTick(room: Room, sessionId: string): GameSession | null {
+    const session = room.sessions.find(s => s.sessionId === sessionId);
+    if (!session || session.status !== "running") return null;
+
+    const module = this.getModule(session);
+    if (!isRealtimeModule(module)) return null;
+
+    const recorder = this.getRecorder(session, module);
+    const tick = session.tick + 1;
+    session.tick = tick;
+
+    for (const input of this.getInputBuffer(session).take(tick)) {
+      this.acknowledgeInput(session, input.playerId, input.inputSeq);
+      try {
+        if (module.validateAction(session.state, input)) continue;
+        session.state = this.withRng(session, rng => module.applyAction(session.state, input, rng));
+      } catch {
+        continue;
+      }
+      session.sequence++;
+      recorder.recordAction(session, input);
+    }
+
+    session.state = this.withRng(session, rng => module.step(session.state, tick, 1000 / module.tickRate, rng));
+
+    if (module.isGameOver(session.state)) {
+      session.status = "finished";
+      this.inputBuffers.delete(session.gameId!);
+    }
+
+    return session;
+  }
+
+  // Ends a running game that cannot go on (its module failed). The game is
+  // not recorded as a match.
+  abortGame(room: Room, sessionId: string): GameSession {
+    const session = this.getSession(room, sessionId);
+    session.status = "finished";
+    session.turnTimer = null;
+    if (session.gameId) {
+      this.inputBuffers.delete(session.gameId);
+      this.recorders.delete(session.gameId);
+    }
+    return session;
+  }
+
+  isRealtime(session: GameSession): boolean {
+    return isRealtimeModule(this.getModule(session));
+  }
+
+  /* Match Recording */
+
+  // Match record of a session, with the final state taken from its current state.
+  getMatchRecord(session: GameSession): MatchRecord {
+    const module = this.getModule(session);
+    return this.getRecorder(session, module).toMatchRecord(session, module);
+  }
+
+  // Standings of a finished game, for the match history. Players who left the
+  // room since are listed under their deviceId.
+  getMatchResult(room: Room, session: GameSession, endedAt: number = Date.now()): MatchResult {
+    const module = this.getModule(session);
+    const result = module.getResult ? module.getResult(session.state) : { winners: [] };
+    const startedAt = session.startedAt ?? endedAt;
+
+    return {
+      gameId: session.gameId!,
+      sessionId: session.sessionId,
+      roomId: room.roomId,
+      moduleId: session.moduleId,
+      players: session.players.map(deviceId => ({
+        deviceId,
+        name: room.members.find(m => m.deviceId === deviceId)?.name ?? deviceId,
+      })),
+      scores: { ...(result.scores || {}) },
+      winners: [...result.winners],
+      startedAt,
+      endedAt,
+      durationMs: endedAt - startedAt,
+    };
+  }
+
+  // Forgets the action log of a session once it has been saved.
+  releaseMatchRecord(session: GameSession): void {
+    if (session.gameId) this.recorders.delete(session.gameId);
+  }
+
+  /* Turn Timers */
+
+  // Applies a TURN_TIMEOUT for the player whose timer has run out.
+  // Returns null if there is nothing to expire (timer re-armed, game over, ...).
+  expireTurn(room: Room, sessionId: string, now: number = Date.now()): GameSession | null {
+    const session = room.sessions.find(s => s.sessionId === sessionId);
+    if (!session || session.status !== "running" || !session.turnTimer) {
+      return null;
+    }
+
+    const timer = session.turnTimer;
+    if (timer.sequence !== session.sequence || timer.deadline > now) {
+      return null;
+    }
+
+    const module = this.getModule(session);
+    return this.commitAction(session, module, {
+      playerId: timer.playerId,
+      actionType: TURN_TIMEOUT_ACTION,
+      data: null,
+    });
+  }
+
+  /* Helpers */
+
+  getSession(room: Room, sessionId: string): GameSession {
+    const session = room.sessions.find(s => s.sessionId === sessionId);
+    if (!session) throw new Error("SESSION_NOT_FOUND");
+    return session;
+  }
+
+  getModule(session: GameSession): GameModule {
+    const module = this.registry.get(session.moduleId);
+    if (!module) throw new Error("UNKNOWN_GAME");
+    return module;
+  }
+
+  // Whose view of the session state `deviceId` gets: itself if it holds a seat
+  // in a hidden-information game, otherwise the shared public view (null).
+  viewerFor(session: GameSession, deviceId: string): string | null {
+    const module = this.getModule(session);
+    return module.getPlayerView && session.players.includes(deviceId) ? deviceId : null;
+  }
+
+  // Serializable state as `viewerId` may see it (see viewerFor).
+  getStateView(session: GameSession, viewerId: string | null): unknown {
+    if (session.status === "waiting") return null;
+
+    const module = this.getModule(session);
+    return module.getPlayerView
+      ? module.getPlayerView(session.state, viewerId)
+      : module.getSnapshot(session.state);
+  }
+
+  private getRunningSession(
+    room: Room,
+    sessionId: string,
+    playerId: string,
+    actionType: string
+  ): GameSession {
+    const session = this.getSession(room, sessionId);
+    if (session.status !== "running") {
+      throw new Error("NO_ACTIVE_GAME");
+    }
+
+    if (!session.players.includes(playerId)) {
+      throw new Error("NOT_A_PLAYER");
+    }
+
+    if (actionType === TURN_TIMEOUT_ACTION) {
+      throw new Error("RESERVED_ACTION");
+    }
+
+    return session;
+  }
+
+  // A session the given player may still change its lobby choices in
+  private getLobbySession(room: Room, sessionId: string, playerId: string): GameSession {
+    const session = this.getSession(room, sessionId);
+    if (!session.players.includes(playerId)) {
+      throw new Error("NOT_IN_SESSION");
+    }
+    if (session.status === "running") {
+      throw new Error("SESSION_IN_PROGRESS");
+    }
+    return session;
+  }
+
+  // Seat order for the game: chosen seats first, everyone else fills the gaps in join order.
+  private seatPlayers(session: GameSession): string[] {
+    const seats: (string | null)[] = Array(session.players.length).fill(null);
+    const unseated: string[] = [];
+
+    for (const id of session.players) {
+      const seat = session.lobby.seats[id];
+      if (seat !== undefined) {
+        while (seats.length <= seat) seats.push(null);
+        seats[seat] = id;
+      } else {
+        unseated.push(id);
+      }
+    }
+
+    return seats
+      .map(id => id ?? unseated.shift() ?? null)
+      .filter((id): id is string => id !== null);
+  }
+
+  // Puts players without a team into the smallest one, then checks team sizes.
+  private formTeams(session: GameSession, players: string[], module: GameModule): Record<string, number> {
+    const { count, minSize = 1, maxSize = Infinity } = module.teams!;
+    const teams: Record<string, number> = {};
+    const sizes: number[] = Array(count).fill(0);
+
+    for (const id of players) {
+      const team = session.lobby.teams[id];
+      if (team !== undefined) {
+        teams[id] = team;
+        sizes[team]++;
+      }
+    }
+
+    for (const id of players) {
+      if (teams[id] !== undefined) continue;
+      const smallest = sizes.indexOf(Math.min(...sizes));
+      teams[id] = smallest;
+      sizes[smallest]++;
+    }
+
+    if (sizes.some(size => size < minSize || size > maxSize)) {
+      throw new Error("TEAMS_UNBALANCED");
+    }
+    return teams;
+  }
+
+  private findPlayingSession(room: Room, deviceId: string): GameSession | undefined {
+    return room.sessions.find(s => s.status !== "finished" && s.players.includes(deviceId));
+  }
+
+  private requireMember(room: Room, deviceId: string): void {
+    if (!room.members.some(m => m.deviceId === deviceId)) {
+      throw new Error("NOT_IN_ROOM");
+    }
+  }
+
+  // Room spectators are read-only: they may watch sessions but never hold a seat
+  private requireSeatable(room: Room, deviceId: string): void {
+    const member = room.members.find(m => m.deviceId === deviceId);
+    if (!member) throw new Error("NOT_IN_ROOM");
+    if (member.role === "spectator") throw new Error("SPECTATOR_READ_ONLY");
+  }
+
+  private closeSession(room: Room, session: GameSession): void {
+    room.sessions = room.sessions.filter(s => s.sessionId !== session.sessionId);
+    if (session.gameId) {
+      this.inputBuffers.delete(session.gameId);
+      this.recorders.delete(session.gameId);
+    }
+  }
+
+  private commitAction(
+    session: GameSession,
+    module: GameModule,
+    action: GameAction
+  ): GameSession {
+    const rejection = module.validateAction(session.state, action);
+    if (rejection) throw new Error(rejection);
+
+    const recorder = this.getRecorder(session, module);
+
+    session.state = this.withRng(session, rng => module.applyAction(session.state, action, rng));
+    session.sequence++;
+    recorder.recordAction(session, action);
+
+    if (module.isGameOver(session.state)) {
+      session.status = "finished";
+    }
+
+    session.turnTimer = this.nextTurnTimer(module, session, Date.now());
+    return session;
+  }
+
+  // Runs a module call with the session's RNG and advances the cursor by what it drew
+  private withRng<T>(session: GameSession, call: (rng: SeededRng) => T): T {
+    const rng = new SeededRng(session.seed, session.rngCursor);
+    const result = call(rng);
+    session.rngCursor = rng.cursor;
+    return result;
+  }
+
+  private acknowledgeInput(session: GameSession, playerId: string, inputSeq?: number): void {
+    if (inputSeq === undefined) return;
+    if (inputSeq > (session.lastInputSeq[playerId] ?? 0)) {
+      session.lastInputSeq[playerId] = inputSeq;
+    }
+  }
+
+  private getRecorder(session: GameSession, module: GameModule): MatchRecorder {
+    const gameId = session.gameId!;
+    let recorder = this.recorders.get(gameId);
+    if (!recorder) {
+      recorder = new MatchRecorder(session, module);
+      this.recorders.set(gameId, recorder);
+    }
+    return recorder;
+  }
+
+  private getInputBuffer(session: GameSession): InputBuffer {
+    const gameId = session.gameId!;
+    let buffer = this.inputBuffers.get(gameId);
+    if (!buffer) {
+      buffer = new InputBuffer();
+      this.inputBuffers.set(gameId, buffer);
+    }
+    return buffer;
+  }
+
+  private nextTurnTimer(
+    module: GameModule,
+    session: GameSession,
+    now: number
+  ): TurnTimer | null {
+    if (session.status !== "running" || !module.getTurnTimeout) return null;
+
+    const timeout = module.getTurnTimeout(session.state);
+    if (!timeout) return null;
+
+    return {
+      playerId: timeout.playerId,
+      sequence: session.sequence,
+      deadline: now + timeout.timeoutMs,
+    };
+  }
+}
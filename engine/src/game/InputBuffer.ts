@@ -0,0 +1,55 @@
+import { GameAction } from "./types";
+
+/* Constants */
+
+// How far ahead of the simulation an input may be scheduled.
+const MAX_INPUT_LEAD_TICKS = 60;
+// Inputs older than this are dropped instead of being applied late.
+const MAX_INPUT_LAG_TICKS = 10;
+
+/* InputBuffer */
+
+// Holds real-time inputs until the tick they are meant for.
+// Inputs for the same tick are applied in arrival order.
+export class InputBuffer {
+  private inputsByTick = new Map<number, GameAction[]>();
+
+  // Queues an input for `targetTick` given the last stepped tick.
+  // Returns the tick it will actually be applied on.
+  add(action: GameAction, currentTick: number, targetTick?: number): number {
+    const nextTick = currentTick + 1;
+    let tick = targetTick ?? nextTick;
+
+    if (tick > currentTick + MAX_INPUT_LEAD_TICKS) {
+      throw new Error("INPUT_TOO_EARLY");
+    }
+
+    if (tick < nextTick) {
+      // The state for that tick is already authoritative; apply late input next tick
+      if (tick < nextTick - MAX_INPUT_LAG_TICKS) {
+        throw new Error("INPUT_TOO_LATE");
+      }
+      tick = nextTick;
+    }
+
+    const queued = this.inputsByTick.get(tick);
+    if (queued) {
+      queued.push(action);
+    } else {
+      this.inputsByTick.set(tick, [action]);
+    }
+
+    return tick;
+  }
+
+  // Removes and returns the inputs scheduled for `tick`.
+  take(tick: number): GameAction[] {
+    const inputs = this.inputsByTick.get(tick) || [];
+    this.inputsByTick.delete(tick);
+    return inputs;
+  }
+
+  clear(): void {
+    this.inputsByTick.clear();
+  }
+}
@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+import { LeaderboardEntry, MAX_HISTORY_LIMIT, MatchResult } from "../network/payloads";
+import { logger } from "../utils/logger";
+
+/* Types & Interfaces */
+
+export interface MatchHistoryQuery {
+  deviceId?: string;     // only matches this device played in
+  moduleId?: string;
+  limit?: number;        // most recent first; at most MAX_HISTORY_LIMIT
+}
+
+/* Constants */
+
+const HISTORY_FILE_VERSION = 1;
+
+/* MatchHistory */
+
+/**
+ * MatchHistory keeps the results of finished games, keyed by gameId so a result
+ * replicated to a device twice is stored once. With a file path it is loaded at
+ * construction and saved after every change, so standings carry across sessions.
+ * A file that cannot be read is logged and replaced by an empty history.
+ */
+export class MatchHistory {
+  private results = new Map<string, MatchResult>();
+
+  constructor(private readonly filePath: string | null = null) {
+    if (filePath && fs.existsSync(filePath)) {
+      try {
+        this.load(filePath);
+      } catch (err: any) {
+        logger.error(`Ignoring match history ${filePath}: ${err.message}`);
+        this.results.clear();
+      }
+    }
+  }
+
+  // Adds results not known yet; returns how many were new.
+  merge(results: MatchResult[]): number {
+    let added = 0;
+    for (const result of results) {
+      if (this.results.has(result.gameId)) continue;
+      this.results.set(result.gameId, result);
+      added++;
+    }
+    if (added > 0) this.save();
+    return added;
+  }
+
+  add(result: MatchResult): boolean {
+    return this.merge([result]) === 1;
+  }
+
+  // Matches, most recent first.
+  query(query: MatchHistoryQuery = {}): MatchResult[] {
+    const matches = [...this.results.values()]
+      .filter(r => !query.moduleId || r.moduleId === query.moduleId)
+      .filter(r => !query.deviceId || r.players.some(p => p.deviceId === query.deviceId))
+      .sort((a, b) => b.endedAt - a.endedAt);
+
+    return query.limit !== undefined ? matches.slice(0, clampLimit(query.limit)) : matches;
+  }
+
+  // Standings of one game: most wins first, then draws, then total score.
+  getLeaderboard(moduleId: string): LeaderboardEntry[] {
+    const entries = new Map<string, LeaderboardEntry>();
+
+    // Oldest first, so the name of the latest match wins
+    for (const result of this.query({ moduleId }).reverse()) {
+      for (const player of result.players) {
+        let entry = entries.get(player.deviceId);
+        if (!entry) {
+          entry = { deviceId: player.deviceId, name: player.name, played: 0, wins: 0, draws: 0, losses: 0, totalScore: 0 };
+          entries.set(player.deviceId, entry);
+        }
+
+        entry.name = player.name;
+        entry.played++;
+        entry.totalScore += result.scores[player.deviceId] ?? 0;
+
+        if (result.winners.length === 0) entry.draws++;
+        else if (result.winners.includes(player.deviceId)) entry.wins++;
+        else entry.losses++;
+      }
+    }
+
+    return [...entries.values()].sort((a, b) =>
+      b.wins - a.wins || b.draws - a.draws || b.totalScore - a.totalScore || a.name.localeCompare(b.name)
+    );
+  }
+
+  private load(filePath: string): void {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    if (!parsed || parsed.version !== HISTORY_FILE_VERSION || !Array.isArray(parsed.matches)) {
+      throw new Error("INVALID_HISTORY_FILE");
+    }
+    for (const result of parsed.matches as MatchResult[]) {
+      this.results.set(result.gameId, result);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify({ version: HISTORY_FILE_VERSION, matches: this.query() }, null, 2)
+    );
+  }
+}
+
+// Whole number of matches between 0 and MAX_HISTORY_LIMIT
+function clampLimit(limit: number): number {
+  if (Number.isNaN(limit)) return 0;
+  return Math.min(MAX_HISTORY_LIMIT, Math.max(0, Math.floor(limit)));
+}
@@ -0,0 +1,93 @@
+import { GameAction, GameModule, GameSession } from "./types";
+
+/* Types & Interfaces */
+
+// Bump when the match file layout changes; replay refuses unknown versions.
+export const MATCH_FILE_VERSION = 2;
+
+export interface RecordedAction {
+  sequence: number;      // session sequence after this action was applied
+  tick: number;          // tick it was applied on (0 for non real-time games)
+  playerId: string;      // deviceId of the acting member
+  actionType: string;
+  data: unknown;
+}
+
+export interface MatchRecord {
+  version: number;
+  sessionId: string;
+  gameId: string;
+  moduleId: string;
+  moduleVersion: number;
+  type: GameSession["type"];
+  seed: number;
+  startRngCursor: number; // RNG position at startSequence / startTick
+  players: string[];
+  startSequence: number; // > 0 when recording began on a host restored mid-game
+  startTick: number;
+  initialState: unknown; // module snapshot at startSequence / startTick
+  actions: RecordedAction[];
+  finalSequence: number;
+  finalTick: number;
+  finalState: unknown;   // module snapshot the replay must reproduce
+  finished: boolean;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+/* MatchRecorder */
+
+// Captures the accepted actions of one session so it can be replayed headlessly.
+export class MatchRecorder {
+  private readonly record: MatchRecord;
+
+  constructor(session: GameSession, module: GameModule) {
+    this.record = {
+      version: MATCH_FILE_VERSION,
+      sessionId: session.sessionId,
+      gameId: session.gameId!,
+      moduleId: session.moduleId,
+      moduleVersion: session.moduleVersion,
+      type: session.type,
+      seed: session.seed,
+      startRngCursor: session.rngCursor,
+      players: [...session.players],
+      startSequence: session.sequence,
+      startTick: session.tick,
+      initialState: module.getSnapshot(session.state),
+      actions: [],
+      finalSequence: session.sequence,
+      finalTick: session.tick,
+      finalState: module.getSnapshot(session.state),
+      finished: false,
+      startedAt: Date.now(),
+      endedAt: null,
+    };
+  }
+
+  // Call right after `action` was applied to `session`.
+  recordAction(session: GameSession, action: GameAction): void {
+    this.record.actions.push({
+      sequence: session.sequence,
+      tick: session.tick,
+      playerId: action.playerId,
+      actionType: action.actionType,
+      data: action.data,
+    });
+  }
+
+  // Returns the record with its final section taken from the current session.
+  toMatchRecord(session: GameSession, module: GameModule): MatchRecord {
+    const finished = session.status === "finished";
+
+    return {
+      ...this.record,
+      actions: [...this.record.actions],
+      finalSequence: session.sequence,
+      finalTick: session.tick,
+      finalState: module.getSnapshot(session.state),
+      finished,
+      endedAt: finished ? this.record.endedAt ?? Date.now() : null,
+    };
+  }
+}
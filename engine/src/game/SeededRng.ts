@@ -0,0 +1,60 @@
+/* SeededRng */
+
+/**
+ * Deterministic random numbers for game modules.
+ *
+ * Every draw is derived from (seed, cursor) alone, so a session only has to
+ * keep those two numbers in its snapshot: a new host or a replay rebuilds the
+ * generator at the same cursor and continues the exact same sequence.
+ * Games must use this instead of Math.random.
+ */
+export class SeededRng {
+  private position: number;
+
+  constructor(readonly seed: number, cursor: number = 0) {
+    this.position = cursor;
+  }
+
+  // Number of values drawn since the start of the game.
+  get cursor(): number {
+    return this.position;
+  }
+
+  // Float in [0, 1).
+  next(): number {
+    return this.draw() / 4294967296;
+  }
+
+  // Integer in [min, max], both inclusive.
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  // Die roll in [1, sides].
+  roll(sides: number = 6): number {
+    return this.int(1, sides);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) throw new Error("EMPTY_CHOICE");
+    return items[this.int(0, items.length - 1)];
+  }
+
+  // Returns a shuffled copy (Fisher-Yates); `items` is not modified.
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.int(0, i);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  // 32-bit value for the current cursor (splitmix-style hash of seed and cursor)
+  private draw(): number {
+    let z = (this.seed + Math.imul(this.position++, 0x9e3779b9)) | 0;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  }
+}
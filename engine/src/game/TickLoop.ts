@@ -0,0 +1,58 @@
+/* Constants */
+
+// Upper bound of ticks run in one timer callback after the process stalled,
+// so a long pause does not freeze the server catching up.
+const MAX_CATCH_UP_TICKS = 10;
+
+/* TickLoop */
+
+// Fixed-timestep loop: onTick runs tickRate times per second on average,
+// independent of timer jitter.
+export class TickLoop {
+  private timer: NodeJS.Timeout | null = null;
+  private startedAt = 0;
+  private ticksRun = 0;
+
+  constructor(
+    private readonly tickRate: number,
+    private readonly onTick: () => void
+  ) { }
+
+  get tickMs(): number {
+    return 1000 / this.tickRate;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.startedAt = Date.now();
+    this.ticksRun = 0;
+    this.timer = setInterval(() => this.runDueTicks(), this.tickMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private runDueTicks(): void {
+    const due = Math.floor((Date.now() - this.startedAt) / this.tickMs);
+    let budget = MAX_CATCH_UP_TICKS;
+
+    while (this.ticksRun < due && budget-- > 0 && this.timer) {
+      this.ticksRun++;
+      this.onTick();
+    }
+
+    // Drop ticks we could not catch up on rather than running them later in a burst
+    if (this.ticksRun < due) {
+      this.ticksRun = due;
+    }
+  }
+}
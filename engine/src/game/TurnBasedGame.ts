@@ -0,0 +1,177 @@
+import { GameAction, GameModule, TURN_TIMEOUT_ACTION } from "./types";
+import { SeededRng } from "./SeededRng";
+
+/* Types & Interfaces */
+
+export type TurnBasedStatus = "playing" | "won" | "draw";
+
+// What happens to a player whose turn timer runs out.
+export type TurnTimeoutPolicy = "skip" | "forfeit";
+
+export interface TurnBasedOptions {
+  turnTimeoutMs?: number;          // no timer if omitted
+  onTurnTimeout?: TurnTimeoutPolicy; // defaults to "skip"
+}
+
+export type TurnOutcome =
+  | { status: "playing" }
+  | { status: "won"; winner: string }
+  | { status: "draw" };
+
+export interface TurnBasedState<Board, Move> {
+  board: Board;
+  players: string[];         // deviceIds in seat order
+  activePlayers: string[];   // players that have not forfeited
+  currentPlayer: string;
+  turnNumber: number;        // starts at 1
+  validMoves: Move[];        // moves available to currentPlayer
+  gameStatus: TurnBasedStatus;
+  winner: string | null;
+}
+
+// The only action type members send to a turn-based game.
+export const MOVE_ACTION = "MOVE";
+
+/**
+ * TurnBasedGame implements the turn bookkeeping shared by Chess/Ludo/Tic-Tac-Toe
+ * style games. Subclasses only describe the board: how it starts, which moves are
+ * legal, how a move changes it and when the game is decided.
+ *
+ * Board and Move must be JSON-serializable; the default snapshot is a plain copy.
+ */
+export abstract class TurnBasedGame<Board, Move>
+  implements GameModule<TurnBasedState<Board, Move>, GameAction<Move>> {
+
+  abstract readonly id: string;
+  abstract readonly version: number;
+  readonly type = "TURN_BASED" as const;
+
+  constructor(protected readonly options: TurnBasedOptions = {}) { }
+
+  /* Board rules (implemented by each game) */
+
+  // `rng` is the session's seeded generator (dice, shuffles); never use Math.random
+  protected abstract createBoard(players: string[], rng: SeededRng): Board;
+  protected abstract getValidMoves(board: Board, playerId: string): Move[];
+  protected abstract isSameMove(a: Move, b: Move): boolean;
+  protected abstract applyMove(board: Board, move: Move, playerId: string, rng: SeededRng): Board;
+  protected abstract getOutcome(board: Board, state: TurnBasedState<Board, Move>): TurnOutcome;
+
+  /* GameModule */
+
+  getInitialState(players: string[], _teams: Record<string, number> | undefined, rng: SeededRng): TurnBasedState<Board, Move> {
+    if (players.length === 0) throw new Error("NOT_ENOUGH_PLAYERS");
+
+    const board = this.createBoard(players, rng);
+    return {
+      board,
+      players: [...players],
+      activePlayers: [...players],
+      currentPlayer: players[0],
+      turnNumber: 1,
+      validMoves: this.getValidMoves(board, players[0]),
+      gameStatus: "playing",
+      winner: null,
+    };
+  }
+
+  validateAction(state: TurnBasedState<Board, Move>, action: GameAction<Move>): string | null {
+    if (state.gameStatus !== "playing") return "GAME_OVER";
+    if (action.playerId !== state.currentPlayer) return "NOT_YOUR_TURN";
+
+    if (action.actionType === TURN_TIMEOUT_ACTION) return null;
+    if (action.actionType !== MOVE_ACTION) return "UNKNOWN_ACTION";
+
+    const legal = state.validMoves.some(m => this.isSameMove(m, action.data));
+    return legal ? null : "INVALID_MOVE";
+  }
+
+  applyAction(state: TurnBasedState<Board, Move>, action: GameAction<Move>, rng: SeededRng): TurnBasedState<Board, Move> {
+    if (action.actionType === TURN_TIMEOUT_ACTION) {
+      return this.applyTimeout(state, action.playerId);
+    }
+
+    const board = this.applyMove(state.board, action.data, action.playerId, rng);
+    return this.advance({ ...state, board });
+  }
+
+  isGameOver(state: TurnBasedState<Board, Move>): boolean {
+    return state.gameStatus !== "playing";
+  }
+
+  getResult(state: TurnBasedState<Board, Move>): { winners: string[] } {
+    return { winners: state.winner ? [state.winner] : [] };
+  }
+
+  getSnapshot(state: TurnBasedState<Board, Move>): unknown {
+    return JSON.parse(JSON.stringify(state));
+  }
+
+  restoreFromSnapshot(snapshot: unknown): TurnBasedState<Board, Move> {
+    return JSON.parse(JSON.stringify(snapshot)) as TurnBasedState<Board, Move>;
+  }
+
+  getTurnTimeout(state: TurnBasedState<Board, Move>): { playerId: string; timeoutMs: number } | null {
+    if (!this.options.turnTimeoutMs || state.gameStatus !== "playing") return null;
+    return { playerId: state.currentPlayer, timeoutMs: this.options.turnTimeoutMs };
+  }
+
+  /* Turn handling */
+
+  // Player who moves after `playerId`; defaults to seat order among active players.
+  protected getNextPlayer(state: TurnBasedState<Board, Move>, playerId: string): string {
+    const seat = state.players.indexOf(playerId);
+    for (let i = 1; i <= state.players.length; i++) {
+      const candidate = state.players[(seat + i) % state.players.length];
+      if (state.activePlayers.includes(candidate)) return candidate;
+    }
+    return playerId;
+  }
+
+  private applyTimeout(state: TurnBasedState<Board, Move>, playerId: string): TurnBasedState<Board, Move> {
+    if ((this.options.onTurnTimeout || "skip") === "skip") {
+      return this.advance(state);
+    }
+
+    const activePlayers = state.activePlayers.filter(p => p !== playerId);
+    if (activePlayers.length === 1) {
+      return {
+        ...state,
+        activePlayers,
+        validMoves: [],
+        gameStatus: "won",
+        winner: activePlayers[0],
+      };
+    }
+
+    // getNextPlayer still sees the forfeiting player's seat, so order is kept
+    const next = this.getNextPlayer({ ...state, activePlayers }, playerId);
+    return {
+      ...state,
+      activePlayers,
+      currentPlayer: next,
+      turnNumber: state.turnNumber + 1,
+      validMoves: this.getValidMoves(state.board, next),
+    };
+  }
+
+  // Settles the outcome after the board changed, then hands the turn on.
+  private advance(state: TurnBasedState<Board, Move>): TurnBasedState<Board, Move> {
+    const outcome = this.getOutcome(state.board, state);
+
+    if (outcome.status === "won") {
+      return { ...state, validMoves: [], gameStatus: "won", winner: outcome.winner };
+    }
+    if (outcome.status === "draw") {
+      return { ...state, validMoves: [], gameStatus: "draw", winner: null };
+    }
+
+    const next = this.getNextPlayer(state, state.currentPlayer);
+    return {
+      ...state,
+      currentPlayer: next,
+      turnNumber: state.turnNumber + 1,
+      validMoves: this.getValidMoves(state.board, next),
+    };
+  }
+}
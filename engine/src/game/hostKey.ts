@@ -0,0 +1,40 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { HostKey, SealedHostState } from "../states/types";
+
+/* Sealed Host State */
+
+const CIPHER = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+// Fresh key for one snapshot round.
+export function createHostKey(keyId: string): HostKey {
+  return { keyId, key: randomBytes(KEY_BYTES).toString("base64") };
+}
+
+export function sealHostState(value: unknown, hostKey: HostKey): SealedHostState {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, Buffer.from(hostKey.key, "base64"), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+
+  return {
+    keyId: hostKey.keyId,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+// Decrypted value, or undefined if `hostKey` is not the key it was sealed with.
+export function openHostState(sealed: SealedHostState, hostKey: HostKey): unknown {
+  if (sealed.keyId !== hostKey.keyId) return undefined;
+
+  try {
+    const decipher = createDecipheriv(CIPHER, Buffer.from(hostKey.key, "base64"), Buffer.from(sealed.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+    const data = Buffer.concat([decipher.update(Buffer.from(sealed.data, "base64")), decipher.final()]);
+    return JSON.parse(data.toString("utf8"));
+  } catch {
+    return undefined;
+  }
+}
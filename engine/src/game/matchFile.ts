@@ -0,0 +1,21 @@
+import fs from "fs";
+import path from "path";
+import { MatchRecord } from "./MatchRecorder";
+
+// Writes a match record as pretty JSON; returns the file path.
+export function saveMatchFile(record: MatchRecord, directory: string): string {
+  fs.mkdirSync(directory, { recursive: true });
+
+  const filePath = path.join(directory, `${record.moduleId}-${record.gameId}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(record, null, 2));
+  return filePath;
+}
+
+export function loadMatchFile(filePath: string): MatchRecord {
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+  if (!parsed || typeof parsed !== "object" || !parsed.moduleId || !Array.isArray(parsed.actions)) {
+    throw new Error("INVALID_MATCH_FILE");
+  }
+  return parsed as MatchRecord;
+}
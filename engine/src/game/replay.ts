@@ -0,0 +1,77 @@
+import { GameRegistry } from "./GameRegistry";
+import { MatchRecord, MATCH_FILE_VERSION, RecordedAction } from "./MatchRecorder";
+import { SeededRng } from "./SeededRng";
+import { isRealtimeModule } from "./types";
+
+/* Types & Interfaces */
+
+export interface ReplayResult {
+  ok: boolean;           // replay reproduced the recorded final state
+  actionsApplied: number;
+  finalState: unknown;
+  expectedFinalState: unknown;
+  reason?: string;
+}
+
+/**
+ * Replays a recorded match through its game module without any networking
+ * and checks the result against the recorded final state.
+ * Real-time matches are re-stepped tick by tick with inputs applied on their tick.
+ * The seeded RNG resumes where recording began, so random draws repeat exactly.
+ */
+export function replayMatch(record: MatchRecord, registry: GameRegistry): ReplayResult {
+  if (record.version !== MATCH_FILE_VERSION) {
+    throw new Error("UNSUPPORTED_MATCH_VERSION");
+  }
+
+  const module = registry.get(record.moduleId);
+  if (!module) throw new Error("UNKNOWN_GAME");
+
+  if (module.version !== record.moduleVersion) {
+    throw new Error("GAME_VERSION_MISMATCH");
+  }
+
+  let state = module.restoreFromSnapshot(record.initialState);
+  const rng = new SeededRng(record.seed, record.startRngCursor);
+  let applied = 0;
+
+  if (isRealtimeModule(module)) {
+    const dtMs = 1000 / module.tickRate;
+    const actionsByTick = groupByTick(record.actions);
+
+    for (let tick = record.startTick + 1; tick <= record.finalTick; tick++) {
+      for (const action of actionsByTick.get(tick) || []) {
+        state = module.applyAction(state, action, rng);
+        applied++;
+      }
+      state = module.step(state, tick, dtMs, rng);
+    }
+  } else {
+    for (const action of record.actions) {
+      state = module.applyAction(state, action, rng);
+      applied++;
+    }
+  }
+
+  const finalState = module.getSnapshot(state);
+  const ok = JSON.stringify(finalState) === JSON.stringify(record.finalState);
+
+  return {
+    ok,
+    actionsApplied: applied,
+    finalState,
+    expectedFinalState: record.finalState,
+    reason: ok ? undefined : "FINAL_STATE_MISMATCH",
+  };
+}
+
+// Recorded actions per tick, in the order they were applied
+function groupByTick(actions: RecordedAction[]): Map<number, RecordedAction[]> {
+  const byTick = new Map<number, RecordedAction[]>();
+  for (const action of actions) {
+    const onTick = byTick.get(action.tick);
+    if (onTick) onTick.push(action);
+    else byTick.set(action.tick, [action]);
+  }
+  return byTick;
+}
@@ -0,0 +1,119 @@
+import { GameSessionSnapshot, HostKey } from "../states/types";
+import { GameRegistry } from "./GameRegistry";
+import { openHostState, sealHostState } from "./hostKey";
+import { GameSession, SessionLobby } from "./types";
+
+// Member a snapshot is made for. Hidden state only goes to the next host in
+// line, sealed with `hostKey`; the other members get the key instead.
+export type SnapshotViewer = {
+  deviceId: string;
+  isSuccessor: boolean;
+  hostKey?: HostKey;
+};
+
+// Converts a live session into its serializable snapshot form.
+// Without a viewer the snapshot holds the full state (for the host itself).
+export function makeGameSessionSnapshot(
+  session: GameSession,
+  registry: GameRegistry,
+  viewer?: SnapshotViewer
+): GameSessionSnapshot {
+  const module = registry.get(session.moduleId);
+  if (!module) throw new Error("UNKNOWN_GAME");
+
+  const snapshot: GameSessionSnapshot = {
+    sessionId: session.sessionId,
+    ownerDeviceId: session.ownerDeviceId,
+    gameId: session.gameId,
+    moduleId: session.moduleId,
+    moduleVersion: session.moduleVersion,
+    type: session.type,
+    players: [...session.players],
+    spectators: [...session.spectators],
+    lobby: copyLobby(session.lobby),
+    state: session.status === "waiting" ? null : module.getSnapshot(session.state),
+    sequence: session.sequence,
+    tick: session.tick,
+    seed: session.seed,
+    rngCursor: session.rngCursor,
+    lastInputSeq: { ...session.lastInputSeq },
+    status: session.status,
+    startedAt: session.startedAt,
+    turnTimer: session.turnTimer ? { ...session.turnTimer } : null,
+  };
+
+  if (!viewer || !module.getPlayerView || session.status === "waiting") {
+    return snapshot;
+  }
+
+  // Hidden information: the viewer only gets its own view, and the seed would
+  // let it predict shuffles. The successor is usually seated too, so it only
+  // gets both sealed, to open once it is host.
+  const viewerId = session.players.includes(viewer.deviceId) ? viewer.deviceId : null;
+  const sealed = viewer.isSuccessor && viewer.hostKey
+    ? { hostOnly: sealHostState({ state: snapshot.state, seed: session.seed }, viewer.hostKey) }
+    : {};
+  return {
+    ...snapshot,
+    state: module.getPlayerView(session.state, viewerId),
+    seed: 0,
+    partial: true,
+    ...sealed,
+  };
+}
+
+// Rebuilds a live session from a snapshot. The module must be registered
+// with the same version, otherwise its state format cannot be trusted.
+// Hidden-information games need the `hostKey` their state was sealed with;
+// without it this throws HIDDEN_STATE_SEALED, and the session can be restored
+// later, once a member hands the key in.
+export function restoreGameSession(
+  snapshot: GameSessionSnapshot,
+  registry: GameRegistry,
+  hostKey?: HostKey
+): GameSession {
+  const module = registry.get(snapshot.moduleId);
+  if (!module) throw new Error("UNKNOWN_GAME");
+
+  if (module.version !== snapshot.moduleVersion) {
+    throw new Error("GAME_VERSION_MISMATCH");
+  }
+
+  // A hidden-information game can only be resumed from the full state
+  let full: { state: unknown; seed: number } = snapshot;
+  if (snapshot.partial) {
+    if (!snapshot.hostOnly) throw new Error("HIDDEN_STATE_UNAVAILABLE");
+    const opened = hostKey ? openHostState(snapshot.hostOnly, hostKey) : undefined;
+    if (opened === undefined) throw new Error("HIDDEN_STATE_SEALED");
+    full = opened as { state: unknown; seed: number };
+  }
+
+  return {
+    sessionId: snapshot.sessionId,
+    ownerDeviceId: snapshot.ownerDeviceId,
+    gameId: snapshot.gameId,
+    moduleId: snapshot.moduleId,
+    moduleVersion: snapshot.moduleVersion,
+    type: snapshot.type,
+    players: [...snapshot.players],
+    spectators: [...snapshot.spectators],
+    lobby: snapshot.lobby ? copyLobby(snapshot.lobby) : { ready: [], seats: {}, teams: {} },
+    state: snapshot.status === "waiting" ? null : module.restoreFromSnapshot(full.state),
+    sequence: snapshot.sequence,
+    tick: snapshot.tick,
+    seed: full.seed,
+    rngCursor: snapshot.rngCursor ?? 0,
+    lastInputSeq: { ...(snapshot.lastInputSeq || {}) },
+    status: snapshot.status,
+    startedAt: snapshot.startedAt ?? null,
+    turnTimer: snapshot.turnTimer ? { ...snapshot.turnTimer } : null,
+  };
+}
+
+function copyLobby(lobby: SessionLobby): SessionLobby {
+  return {
+    ready: [...lobby.ready],
+    seats: { ...lobby.seats },
+    teams: { ...lobby.teams },
+  };
+}
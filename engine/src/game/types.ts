@@ -0,0 +1,121 @@
+import { SeededRng } from "./SeededRng";
+
+/* Types & Interfaces */
+
+export type GameType = "TURN_BASED" | "REALTIME" | "HYBRID";
+
+export type GameStatus = "waiting" | "running" | "finished";
+
+// Action type the server applies on behalf of a player whose turn timer ran out.
+// Clients may never send it themselves.
+export const TURN_TIMEOUT_ACTION = "TURN_TIMEOUT";
+
+// An action as seen by a game module: what the member sent plus who sent it.
+export interface GameAction<Data = unknown> {
+  playerId: string;      // deviceId of the acting member
+  actionType: string;
+  data: Data;
+  inputSeq?: number;     // client-assigned counter, acknowledged back for prediction
+}
+
+// Team layout a module needs; teams are numbered from 0.
+export interface TeamConstraints {
+  count: number;
+  minSize?: number;      // defaults to 1
+  maxSize?: number;      // no limit if omitted
+}
+
+/**
+ * GameModule is the plugin contract every game implements.
+ *
+ * Modules must be pure: the server owns the session and only ever calls
+ * these functions, so the same inputs always produce the same state.
+ * Randomness must come from the `rng` passed in, never Math.random.
+ */
+export interface GameModule<State = unknown, Action extends GameAction = GameAction> {
+  readonly id: string;
+  readonly version: number;
+  readonly type: GameType;
+
+  // Lobby constraints, checked before a game may start
+  readonly minPlayers?: number;   // defaults to 1
+  readonly maxPlayers?: number;   // no limit if omitted
+  readonly teams?: TeamConstraints;
+
+  // `players` are in seat order; `teams` maps each player to a team when the module has teams.
+  getInitialState(players: string[], teams: Record<string, number> | undefined, rng: SeededRng): State;
+
+  // Returns a rejection reason, or null if the action may be applied.
+  validateAction(state: State, action: Action): string | null;
+
+  applyAction(state: State, action: Action, rng: SeededRng): State;
+  isGameOver(state: State): boolean;
+  getSnapshot(state: State): unknown;
+  restoreFromSnapshot(snapshot: unknown): State;
+
+  // Optional turn timer: who must act next and how long they have, or null for no timer.
+  getTurnTimeout?(state: State): { playerId: string; timeoutMs: number } | null;
+
+  // Optional, for hidden-information games: the part of the state `viewerId` may see
+  // (null for spectators and members without a seat). Must be JSON-serializable.
+  // Without it every viewer gets getSnapshot(state).
+  getPlayerView?(state: State, viewerId: string | null): unknown;
+
+  // Optional final standings, read once the game is over. `winners` is empty for a draw;
+  // `scores` is keyed by deviceId. Without it the match is recorded with no winner.
+  getResult?(state: State): { winners: string[]; scores?: Record<string, number> };
+}
+
+/**
+ * RealtimeGameModule is a GameModule driven by the server's fixed-timestep loop.
+ * Inputs are buffered per tick and applied with applyAction right before step().
+ */
+export interface RealtimeGameModule<State = unknown, Action extends GameAction = GameAction>
+  extends GameModule<State, Action> {
+  readonly type: "REALTIME";
+  readonly tickRate: number;   // simulation steps per second
+  readonly sendRate: number;   // GAME_UPDATE broadcasts per second (<= tickRate)
+
+  step(state: State, tick: number, dtMs: number, rng: SeededRng): State;
+}
+
+export function isRealtimeModule(module: GameModule<any, any>): module is RealtimeGameModule<any, any> {
+  return module.type === "REALTIME" && typeof (module as RealtimeGameModule).step === "function";
+}
+
+// Armed turn timer; only valid while the session sequence is unchanged.
+export interface TurnTimer {
+  playerId: string;
+  sequence: number;
+  deadline: number;      // epoch ms on the host clock
+}
+
+// Pre-game coordination of a session's players (ready-check, seats, teams).
+export interface SessionLobby {
+  ready: string[];                 // players who confirmed they are ready
+  seats: Record<string, number>;   // chosen seat per player (0-based)
+  teams: Record<string, number>;   // team per player
+}
+
+// A game table inside a room, owned by the host server. A room can hold several.
+// Lifecycle: "waiting" (gathering players) -> "running" -> "finished" (may be restarted).
+export interface GameSession {
+  sessionId: string;
+  ownerDeviceId: string; // member who opened the session
+  gameId: string | null; // unique per started game, null while waiting
+  moduleId: string;
+  moduleVersion: number;
+  type: GameType;
+  players: string[];     // deviceIds, in seat order once a game started
+  spectators: string[];  // deviceIds watching without a seat
+  lobby: SessionLobby;
+  state: unknown;        // live module state (null while waiting)
+  sequence: number;      // number of accepted actions
+  tick: number;          // simulation ticks stepped (real-time games only)
+  seed: number;          // per-game random seed, recorded for replays
+  rngCursor: number;     // values drawn from the seeded RNG so far
+  lastInputSeq: Record<string, number>; // last processed inputSeq per player
+  status: GameStatus;
+  startedAt: number | null; // epoch ms the current game started, null while waiting
+  turnTimer: TurnTimer | null;
+}
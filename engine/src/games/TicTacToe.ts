@@ -0,0 +1,64 @@
+import { TurnBasedGame, TurnBasedState, TurnOutcome } from "../game/TurnBasedGame";
+
+/* Types & Interfaces */
+
+// Nine cells, row by row; each holds the deviceId of the player who marked it.
+export type TicTacToeBoard = (string | null)[];
+
+export interface TicTacToeMove {
+  cell: number;   // 0-8
+}
+
+export type TicTacToeState = TurnBasedState<TicTacToeBoard, TicTacToeMove>;
+
+/* Constants */
+
+const LINES = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
+  [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
+  [0, 4, 8], [2, 4, 6],            // diagonals
+];
+
+/**
+ * TicTacToe is the reference turn-based game bundled with the engine.
+ * Two players take turns marking a cell; the first seat moves first.
+ *
+ * Send a move as GAME_ACTION { actionType: "MOVE", data: { cell } }.
+ */
+export class TicTacToe extends TurnBasedGame<TicTacToeBoard, TicTacToeMove> {
+  readonly id = "tictactoe";
+  readonly version = 1;
+  readonly minPlayers = 2;
+  readonly maxPlayers = 2;
+
+  protected createBoard(): TicTacToeBoard {
+    return Array(9).fill(null);
+  }
+
+  protected getValidMoves(board: TicTacToeBoard): TicTacToeMove[] {
+    const moves: TicTacToeMove[] = [];
+    board.forEach((owner, cell) => {
+      if (owner === null) moves.push({ cell });
+    });
+    return moves;
+  }
+
+  protected isSameMove(a: TicTacToeMove, b: TicTacToeMove): boolean {
+    return !!b && a.cell === b.cell;
+  }
+
+  protected applyMove(board: TicTacToeBoard, move: TicTacToeMove, playerId: string): TicTacToeBoard {
+    const next = [...board];
+    next[move.cell] = playerId;
+    return next;
+  }
+
+  protected getOutcome(board: TicTacToeBoard): TurnOutcome {
+    for (const [a, b, c] of LINES) {
+      if (board[a] !== null && board[a] === board[b] && board[a] === board[c]) {
+        return { status: "won", winner: board[a]! };
+      }
+    }
+    return board.every(owner => owner !== null) ? { status: "draw" } : { status: "playing" };
+  }
+}
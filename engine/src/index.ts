@@ -4,6 +4,13 @@ import { PeerNode } from "./peer/PeerNode";
 import { LanForgeServer } from "./server/Server";
 import { logger } from "./utils/logger";
 import { startDiscovery, stopDiscovery, DiscoveredHost } from "./discovery/udpDiscovery";
+import { HIDDEN_JOIN_CODE } from "./discovery/udpAnnounce";
+import { isInviteUri, parseInviteUri, inviteServerUrl, renderInviteQr } from "./discovery/invite";
+import { loadMatchFile } from "./game/matchFile";
+import { replayMatch } from "./game/replay";
+import { MatchHistory } from "./game/MatchHistory";
+import { defaultGameRegistry } from "./game/GameRegistry";
+import { TicTacToe } from "./games/TicTacToe";
 import * as readline from "readline";
 
 function getEnvOrDefault(name: string, fallback: string): string {
@@ -15,18 +22,41 @@ function getEnvOrDefault(name: string, fallback: string): string {
 const DEVICE_ID = getEnvOrDefault("LANFORGE_DEVICE_ID", `device-${Math.floor(Math.random() * 10000)}`);
 const SERVER_URL = getEnvOrDefault("LANFORGE_SERVER_URL", "ws://localhost:8080");
 
+// Results of every game this device took part in or hosted, kept across runs
+const HISTORY_FILE = getEnvOrDefault("LANFORGE_HISTORY_FILE", "matches/history.json");
+
+// Settings of the room created in host mode
+const ROOM_PASSWORD = process.env.LANFORGE_ROOM_PASSWORD || undefined;
+const ROOM_PRIVATE = process.env.LANFORGE_ROOM_PRIVATE === "1";
+const ROOM_MAX_PLAYERS = process.env.LANFORGE_MAX_PLAYERS ? parseInt(process.env.LANFORGE_MAX_PLAYERS, 10) : undefined;
+
+// Minutes without activity before the host closes a room; 0 keeps rooms open
+const ROOM_IDLE_MINUTES = parseFloat(getEnvOrDefault("LANFORGE_ROOM_IDLE_MINUTES", "30"));
+
+// Seconds a member whose connection dropped keeps its place (seat, game slot, role)
+const RECONNECT_GRACE_SECONDS = parseFloat(getEnvOrDefault("LANFORGE_RECONNECT_GRACE_SECONDS", "30"));
+
+// Games bundled with the engine
+defaultGameRegistry.register(new TicTacToe());
+
 async function main() {
   const args = process.argv.slice(2);
-  const mode = args[0] || "discover"; // host, discover, join
+  const mode = args[0] || "discover"; // host, discover, join, replay
   const clientName = args[1] || "Player-" + DEVICE_ID.slice(-4);
   const joinCode = args[2];
+  const password = args[3];
 
   logger.info(`[Main] Mode: ${mode}, Name: ${clientName}, DeviceId: ${DEVICE_ID}`);
 
   if (mode === "host") {
     // 1) Start server
     logger.info("[Main] Starting as HOST. Launching server...");
-    const server = new LanForgeServer();
+    const history = new MatchHistory(HISTORY_FILE);
+    const server = new LanForgeServer(defaultGameRegistry, {
+      history,
+      roomIdleTimeoutMs: ROOM_IDLE_MINUTES > 0 ? ROOM_IDLE_MINUTES * 60000 : null,
+      reconnectGraceMs: RECONNECT_GRACE_SECONDS * 1000,
+    });
     server.start(8080);
 
     // 2) Start peer and connect to local server
@@ -34,22 +64,28 @@ async function main() {
       deviceId: DEVICE_ID,
       serverUrl: "ws://localhost:8080",
       clientName: clientName,
+      history,
     });
     await peer.start();
 
     // 3) Create room
-    peer.createRoom("My Awesome Room");
+    peer.createRoom("My Awesome Room", {
+      password: ROOM_PASSWORD,
+      isPrivate: ROOM_PRIVATE,
+      maxPlayers: ROOM_MAX_PLAYERS,
+    });
 
     // 4) Start announcing
     // (peer as any).startUdpAnnounce(); // This is now automatic
 
-    setupChatInterface(peer);
+    setupChatInterface(peer, server);
   }
   else if (mode === "discover") {
     logger.info("[Main] Starting in DISCOVERY mode. Listening for 5 seconds...");
 
     startDiscovery((host: DiscoveredHost) => {
-      logger.info(`[Discovery] Found Room: ${host.roomId} | JoinCode: ${host.joinCode} | At: ${host.ip}:${host.port}`);
+      const joinCode = host.joinCode === HIDDEN_JOIN_CODE ? "(private)" : host.joinCode;
+      logger.info(`[Discovery] Found Room: ${host.roomId} | JoinCode: ${joinCode} | At: ${host.ip}:${host.port}`);
     });
 
     setTimeout(() => {
@@ -60,43 +96,133 @@ async function main() {
     }, 5000);
   }
   else if (mode === "join") {
-    if (!joinCode) {
-      logger.error("[Main] joinCode required for 'join' mode. usage: npm start join <name> <code>");
+    // join <name> <code|uri> [password], or join <uri> [name] [password]
+    const uriFirst = !!args[1] && isInviteUri(args[1]);
+    const target = uriFirst ? args[1] : joinCode;
+    const name = uriFirst ? args[2] || "Player-" + DEVICE_ID.slice(-4) : clientName;
+    const joinPassword = uriFirst ? args[3] : password;
+
+    if (!target) {
+      logger.error("[Main] joinCode or invite required for 'join' mode. usage: npm start join <name> <code|lanforge://...> [password]");
       process.exit(1);
     }
 
+    let serverUrl = SERVER_URL;
+    let code = target;
+    if (isInviteUri(target)) {
+      try {
+        const invite = parseInviteUri(target);
+        serverUrl = inviteServerUrl(invite);
+        code = invite.joinCode;
+        if (invite.passwordHint && !joinPassword) {
+          logger.info(`[Main] This room may need a password. Hint: ${invite.passwordHint}`);
+        }
+      } catch {
+        logger.error(`[Main] Not a valid invite: ${target}`);
+        process.exit(1);
+      }
+    }
+
     const peer = new PeerNode({
       deviceId: DEVICE_ID,
-      serverUrl: SERVER_URL,
-      clientName: clientName,
+      serverUrl,
+      clientName: name,
+      history: new MatchHistory(HISTORY_FILE),
     });
     await peer.start();
-    peer.joinRoom(joinCode);
+    peer.joinRoom(code, false, joinPassword);
 
     setupChatInterface(peer);
   }
+  else if (mode === "replay") {
+    // Headless: re-run a recorded match through its game module and verify the final state
+    const matchFile = args[1];
+    if (!matchFile) {
+      logger.error("[Main] match file required for 'replay' mode. usage: npm run dev replay <file>");
+      process.exit(1);
+    }
+
+    const record = loadMatchFile(matchFile);
+    logger.info(`[Replay] ${record.moduleId} v${record.moduleVersion} gameId=${record.gameId}, ${record.actions.length} actions, seed=${record.seed}`);
+
+    const result = replayMatch(record, defaultGameRegistry);
+    if (result.ok) {
+      logger.info(`[Replay] OK: ${result.actionsApplied} actions reproduced the recorded final state`);
+    } else {
+      logger.error(`[Replay] FAILED: ${result.reason}`, {
+        expected: result.expectedFinalState,
+        actual: result.finalState,
+      });
+    }
+    process.exit(result.ok ? 0 : 1);
+  }
 }
 
-function setupChatInterface(peer: PeerNode) {
+// How long to wait before exiting after a shutdown, so ROOM_CLOSED gets out
+const SHUTDOWN_FLUSH_MS = 500;
+
+// `server` is the server started in host mode, if any
+function setupChatInterface(peer: PeerNode, server?: LanForgeServer) {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
     terminal: false
   });
 
-  logger.info("[Chat] Type a message and press Enter to chat. Type '/kick <deviceId>' to kick.");
+  logger.info("[Chat] Type a message and press Enter to chat. Type '/kick <deviceId> [minutes]' to kick, '/unban <deviceId>' to lift the ban.");
+  logger.info("[Chat] '/name <name>' renames you, '/avatar <emoji> [#rrggbb]' sets your avatar.");
+  logger.info("[Chat] '/leader <deviceId>' makes a member a leader, '/member <deviceId>' takes it back.");
+  logger.info("[Chat] '/invite [password hint]' prints a lanforge:// invite with a QR code to scan.");
+  logger.info("[Chat] '/rooms' lists the public rooms on the server, '/rooms watch' keeps the list updated, '/rooms stop' stops that.");
+  logger.info("[Chat] '/lock' stops new joins, '/unlock' allows them again, '/close [reason]' closes the room.");
+  logger.info("[Chat] '/transfer <deviceId>' hands the host role over, '/quit' leaves (handing the room over if you host it).");
+  logger.info("[Chat] '/shutdown [reason]' closes the room you host for everyone and exits.");
+  logger.info("[Chat] '/history [deviceId]' lists past matches, '/leaderboard <gameId>' shows standings.");
 
   rl.on("line", (line) => {
     if (line.startsWith("/kick ")) {
-      const target = line.split(" ")[1];
-      // Note: Kick requires host connection. Host is just another peer connected to the server.
-      // We don't have a public kick method on PeerNode yet, but we can add one or use send.
-      (peer as any).send({
-        type: "KICK",
-        requestId: `kick-${Date.now()}`,
-        clientId: (peer as any).connection.clientId,
-        payload: { targetDeviceId: target }
-      });
+      const [, target, minutes] = line.split(" ");
+      peer.kick(target, undefined, minutes ? parseFloat(minutes) * 60000 : undefined);
+    } else if (line.startsWith("/unban ")) {
+      peer.unban(line.split(" ")[1]);
+    } else if (line.startsWith("/name ")) {
+      peer.updateProfile({ name: line.slice("/name ".length) });
+    } else if (line.startsWith("/avatar ")) {
+      const [, emoji, color] = line.split(" ");
+      peer.updateProfile({ avatar: { emoji, ...(color ? { color } : {}) } });
+    } else if (line.startsWith("/leader ")) {
+      peer.setRole(line.split(" ")[1], "leader");
+    } else if (line.startsWith("/member ")) {
+      peer.setRole(line.split(" ")[1], "member");
+    } else if (line.startsWith("/invite")) {
+      const invite = peer.createInvite(line.slice("/invite".length).trim() || undefined);
+      if (!invite) {
+        logger.warn("[Chat] Not in a room yet.");
+      } else {
+        logger.info(`[Chat] Invite: ${invite}`);
+        renderInviteQr(invite).then((qr) => process.stdout.write(qr + "\n"));
+      }
+    } else if (line.startsWith("/rooms")) {
+      const option = line.split(" ")[1];
+      peer.listRooms(option === "watch" ? true : option === "stop" ? false : undefined);
+    } else if (line.trim() === "/lock" || line.trim() === "/unlock") {
+      peer.lockRoom(line.trim() === "/lock");
+    } else if (line.startsWith("/close")) {
+      peer.closeRoom(line.slice("/close".length).trim() || undefined);
+    } else if (line.startsWith("/transfer ")) {
+      peer.transferHost(line.split(" ")[1]);
+    } else if (line.trim() === "/quit") {
+      rl.close();
+      peer.leaveAsHost().then(() => process.exit(0));
+    } else if (line.startsWith("/shutdown")) {
+      rl.close();
+      peer.shutdownHost(line.slice("/shutdown".length).trim() || undefined, server);
+      setTimeout(() => process.exit(0), SHUTDOWN_FLUSH_MS);
+    } else if (line.startsWith("/history")) {
+      const deviceId = line.split(" ")[1];
+      peer.queryMatchHistory({ deviceId: deviceId || DEVICE_ID, limit: 20 });
+    } else if (line.startsWith("/leaderboard ")) {
+      peer.queryLeaderboard(line.split(" ")[1]);
     } else if (line.trim().length > 0) {
       peer.sendChat(line);
     }
@@ -1,10 +1,177 @@
 import { NetworkMessage } from "./Protocol";
 import { MessageType } from "./MessageTypes";
 import { logger } from "../utils/logger";
+import { normalizeName } from "../utils/names";
+import { MAX_HISTORY_LIMIT } from "./payloads";
 
+// `error` is an ErrorCode name; `field` names the payload field that failed validation.
 export type DecodeResult =
   | { ok: true; message: NetworkMessage }
-  | { ok: false; error: string };
+  | { ok: false; error: string; requestId?: string; field?: string };
+
+/* Payload Schemas */
+
+// Checks one payload field; `undefined` means the field is absent.
+type FieldCheck = (value: unknown) => boolean;
+type PayloadSchema = Record<string, FieldCheck>;
+
+// Coarse limits only: types and sizes. The rules of the domain (player limits,
+// roles, seats, ...) stay with RoomManager and the game code, which report them
+// with their own error codes. Member names are the exception: every entry point
+// shares normalizeName, so a name refused on rename is refused on join too.
+const MAX_ID_LENGTH = 128;        // deviceIds, sessionIds, requestIds, module ids, ...
+const MAX_ROOM_NAME_LENGTH = 64;
+const MAX_TEXT_LENGTH = 500;      // chat messages, reasons
+const MAX_PASSWORD_LENGTH = 128;
+const MAX_URL_LENGTH = 256;
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+const str = (max: number, min = 1): FieldCheck => v => typeof v === "string" && v.length >= min && v.length <= max;
+const num: FieldCheck = v => typeof v === "number" && Number.isFinite(v);
+const int = (min: number, max: number): FieldCheck => v => Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+const bool: FieldCheck = v => typeof v === "boolean";
+const obj: FieldCheck = v => isObject(v);
+const any: FieldCheck = () => true;
+const oneOf = (...values: unknown[]): FieldCheck => v => values.includes(v);
+const listOf = (item: FieldCheck): FieldCheck => v => Array.isArray(v) && v.every(item);
+const optional = (check: FieldCheck): FieldCheck => v => v === undefined || check(v);
+const nullable = (check: FieldCheck): FieldCheck => v => v === null || check(v);
+
+const id = str(MAX_ID_LENGTH);
+const memberName: FieldCheck = v => normalizeName(v) !== null;
+
+// One schema per message type, for both directions: fields the server fills
+// in are optional so the same schema holds for requests and replies.
+const SCHEMAS: Record<MessageType, PayloadSchema> = {
+    [MessageType.PING]: { timestamp: optional(num) },
+    [MessageType.PONG]: { timestamp: optional(num) },
+    [MessageType.ECHO]: { text: str(MAX_TEXT_LENGTH, 0) },
+    [MessageType.ERROR]: { reason: str(MAX_TEXT_LENGTH), code: optional(num), field: optional(id) },
+
+    [MessageType.CREATE_ROOM]: {
+        roomName: optional(str(MAX_ROOM_NAME_LENGTH, 0)),
+        maxPlayers: optional(num),
+        password: optional(str(MAX_PASSWORD_LENGTH, 0)),
+        isPrivate: optional(bool),
+    },
+    [MessageType.JOIN_ROOM]: {
+        joinCode: id,
+        asSpectator: optional(bool),
+        password: optional(str(MAX_PASSWORD_LENGTH, 0)),
+    },
+    [MessageType.LEAVE_ROOM]: { roomId: id },
+    [MessageType.UPDATE_ROOM_SETTINGS]: {
+        roomName: optional(str(MAX_ROOM_NAME_LENGTH, 0)),
+        maxPlayers: optional(nullable(num)),
+        password: optional(nullable(str(MAX_PASSWORD_LENGTH, 0))),
+        isPrivate: optional(bool),
+    },
+    [MessageType.LOCK_ROOM]: { locked: bool },
+    [MessageType.CLOSE_ROOM]: { reason: optional(str(MAX_TEXT_LENGTH, 0)) },
+    [MessageType.ROOM_CLOSED]: { roomId: id, reason: str(MAX_TEXT_LENGTH) },
+    [MessageType.LIST_ROOMS]: { subscribe: optional(bool), rooms: optional(listOf(obj)) },
+    [MessageType.ROOM_STATE]: { roomId: id, players: listOf(id), hostId: id },
+
+    [MessageType.HELLO]: {
+        deviceId: id,
+        name: memberName,
+        capabilities: optional(obj),     // checked field by field by sanitizeCapabilities
+        resumeToken: optional(id),
+        hostKey: optional(obj),
+    },
+    [MessageType.WELCOME]: { clientId: id, resumeToken: id },
+    [MessageType.CHAT]: {
+        text: str(MAX_TEXT_LENGTH),
+        fromDeviceId: optional(id),
+        fromName: optional(memberName),
+        timestamp: optional(num),
+    },
+    [MessageType.STATE_SNAPSHOT]: { snapshot: obj },
+    [MessageType.HOST_CHANGED]: { newHostDeviceId: id, serverUrl: optional(str(MAX_URL_LENGTH)) },
+    [MessageType.TRANSFER_HOST]: { targetDeviceId: optional(id), leaving: optional(bool) },
+    [MessageType.HOST_HANDOFF]: { snapshot: obj, previousHostLeaving: bool },
+    [MessageType.HOST_READY]: { port: num },
+    [MessageType.HOST_HANDOFF_FAILED]: { reason: str(MAX_TEXT_LENGTH) },
+    [MessageType.KICK]: {
+        targetDeviceId: id,
+        reason: optional(str(MAX_TEXT_LENGTH, 0)),
+        banDurationMs: optional(num),
+    },
+    [MessageType.KICKED]: { reason: str(MAX_TEXT_LENGTH), expiresAt: optional(nullable(num)) },
+    [MessageType.UNBAN]: { targetDeviceId: id },
+    [MessageType.UPDATE_PROFILE]: {
+        name: optional(memberName),
+        avatar: optional(nullable(obj)),
+    },
+    [MessageType.PROFILE_UPDATED]: { deviceId: id, name: memberName, avatar: optional(obj) },
+    [MessageType.PROMOTE_SPECTATOR]: { targetDeviceId: id },
+    [MessageType.SET_ROLE]: { targetDeviceId: id, role: id },
+
+    [MessageType.GAME_START]: {
+        sessionId: optional(id),
+        moduleId: optional(id),
+        gameId: optional(id),
+        players: optional(listOf(id)),
+        initialState: any,
+        updateSeq: optional(num),
+    },
+    [MessageType.GAME_ACTION]: {
+        sessionId: id,
+        actionType: id,
+        data: any,
+        tick: optional(num),
+        inputSeq: optional(num),
+    },
+    [MessageType.GAME_UPDATE]: {
+        sessionId: id,
+        gameId: id,
+        updateSeq: num,
+        baseSeq: optional(num),
+        encoding: oneOf("full", "delta"),
+        sequence: num,
+        tick: optional(num),
+        stateDelta: any,
+        gameOver: bool,
+        ackedInputs: optional(obj),
+        lastAction: optional(obj),
+    },
+    [MessageType.GAME_RESYNC]: { sessionId: id },
+
+    [MessageType.SESSION_CREATE]: { moduleId: id },
+    [MessageType.SESSION_JOIN]: { sessionId: id, asSpectator: optional(bool) },
+    [MessageType.SESSION_LEAVE]: { sessionId: id },
+    [MessageType.SESSION_LIST]: { sessions: optional(listOf(obj)) },
+
+    [MessageType.LOBBY_READY]: { sessionId: id, ready: bool },
+    [MessageType.LOBBY_ASSIGN]: {
+        sessionId: id,
+        targetDeviceId: optional(id),
+        seat: optional(num),
+        team: optional(num),
+    },
+
+    [MessageType.MATCH_RESULT]: { result: obj },
+    [MessageType.MATCH_HISTORY]: {
+        deviceId: optional(id),
+        moduleId: optional(id),
+        limit: optional(int(0, MAX_HISTORY_LIMIT)),
+        matches: optional(listOf(obj)),
+    },
+    [MessageType.LEADERBOARD]: { moduleId: id, entries: optional(listOf(obj)) },
+};
+
+const KNOWN_TYPES = new Set<string>(Object.values(MessageType));
+
+// First field of `payload` that does not match `schema`, or null if all do.
+function findInvalidField(schema: PayloadSchema, payload: Record<string, unknown>): string | null {
+    for (const [field, check] of Object.entries(schema)) {
+        if (!check(payload[field])) return field;
+    }
+    return null;
+}
+
+/* Encoding */
 
 export function serializeMessage(message: NetworkMessage): string {
     try {
@@ -15,19 +182,45 @@ export function serializeMessage(message: NetworkMessage): string {
     }
 }
 
-export function parseIncomingMessage(rawData: string): NetworkMessage | null {
+// Parses and validates a message against the schema of its type.
+export function decodeMessage(rawData: string): DecodeResult {
+    let parsed: unknown;
     try {
-        const parsed = JSON.parse(rawData);
-        // Basic validation could go here (check if 'type' exists, etc.)
-        if (!parsed || typeof parsed !== "object" || !parsed.type) {
-            logger.warn("Invalid message structure received");
-            return null;
-        }
-        return parsed as NetworkMessage;
-    } catch (err) {
-        logger.error("Failed to parse incoming message", err);
+        parsed = JSON.parse(rawData);
+    } catch {
+        return { ok: false, error: "INVALID_MESSAGE" };
+    }
+    if (!isObject(parsed)) {
+        return { ok: false, error: "INVALID_MESSAGE" };
+    }
+
+    // clientId is optional (BaseMessage): a client has none before its first WELCOME
+    const requestId = id(parsed.requestId) ? parsed.requestId as string : undefined;
+    if (!requestId || !optional(id)(parsed.clientId)) {
+        return { ok: false, error: "INVALID_MESSAGE", requestId };
+    }
+    if (typeof parsed.type !== "string" || !KNOWN_TYPES.has(parsed.type)) {
+        return { ok: false, error: "UNKNOWN_MESSAGE_TYPE", requestId };
+    }
+    if (!isObject(parsed.payload)) {
+        return { ok: false, error: "INVALID_PAYLOAD", requestId, field: "payload" };
+    }
+
+    const field = findInvalidField(SCHEMAS[parsed.type as MessageType], parsed.payload);
+    if (field) {
+        return { ok: false, error: "INVALID_PAYLOAD", requestId, field };
+    }
+    return { ok: true, message: parsed as unknown as NetworkMessage };
+}
+
+// Decoded message, or null (logged) if it is malformed; for callers that only drop bad input.
+export function parseIncomingMessage(rawData: string): NetworkMessage | null {
+    const result = decodeMessage(rawData);
+    if (!result.ok) {
+        logger.warn(`Invalid message received: ${result.error}${result.field ? ` (${result.field})` : ""}`);
         return null;
     }
+    return result.message;
 }
 
 // Type guard helper
@@ -0,0 +1,74 @@
+// Stable numeric codes sent in ERROR payloads next to the human-readable reason.
+// Never renumber an existing entry: clients match on these values.
+export enum ErrorCode {
+    // Protocol errors
+    INVALID_MESSAGE = 1001,
+    UNKNOWN_MESSAGE_TYPE = 1002,
+    INVALID_PAYLOAD = 1003,
+    UNSUPPORTED_MESSAGE_TYPE = 1004,
+    HELLO_REQUIRED = 1005,
+    INTERNAL_ERROR = 1006,      // unexpected failure; the reason has the details
+
+    // Room errors
+    INVALID_JOIN_CODE = 2001,
+    NAME_CONFLICT = 2002,
+    ROOM_NOT_FOUND = 2003,
+    NOT_IN_ROOM = 2004,
+    NOT_HOST = 2005,
+    MEMBER_NOT_FOUND = 2006,
+    NOT_A_SPECTATOR = 2007,
+    SPECTATOR_READ_ONLY = 2008,
+    PERMISSION_DENIED = 2009,
+    INSUFFICIENT_RANK = 2010,
+    INVALID_ROLE = 2011,
+    ROOM_FULL = 2012,
+    INVALID_PASSWORD = 2013,
+    INVALID_SETTINGS = 2014,
+    BANNED = 2015,
+    NOT_BANNED = 2016,
+    INVALID_BAN_DURATION = 2017,
+    INVALID_NAME = 2018,
+    INVALID_AVATAR = 2019,
+    HANDOFF_IN_PROGRESS = 2020,
+    HANDOFF_FAILED = 2021,
+    ROOM_LOCKED = 2022,
+    INVALID_RESUME_TOKEN = 2023,
+    CANNOT_TARGET_SELF = 2024,
+
+    // Game errors
+    UNKNOWN_GAME = 4001,
+    GAME_ALREADY_RUNNING = 4002,
+    NO_ACTIVE_GAME = 4003,
+    NOT_A_PLAYER = 4004,
+    NOT_YOUR_TURN = 4005,
+    INVALID_MOVE = 4006,
+    UNKNOWN_ACTION = 4007,
+    GAME_OVER = 4008,
+    RESERVED_ACTION = 4009,
+    INPUT_TOO_EARLY = 4010,
+    INPUT_TOO_LATE = 4011,
+    SESSION_NOT_FOUND = 4012,
+    TOO_MANY_SESSIONS = 4013,
+    ALREADY_IN_SESSION = 4014,
+    NOT_IN_SESSION = 4015,
+    SESSION_IN_PROGRESS = 4016,
+    NOT_SESSION_OWNER = 4017,
+    NOT_ENOUGH_PLAYERS = 4018,
+    TOO_MANY_PLAYERS = 4019,
+    SESSION_FULL = 4020,
+    PLAYERS_NOT_READY = 4021,
+    INVALID_SEAT = 4022,
+    SEAT_TAKEN = 4023,
+    INVALID_TEAM = 4024,
+    TEAM_FULL = 4025,
+    TEAMS_UNBALANCED = 4026,
+}
+
+// Maps an error reason (as thrown by RoomManager / game code) to its numeric code.
+// Only own, numeric entries count: the enum's reverse mapping ("1001") and
+// inherited keys ("constructor") are not error reasons.
+export function errorCodeFor(reason: string): ErrorCode | undefined {
+    if (!Object.prototype.hasOwnProperty.call(ErrorCode, reason)) return undefined;
+    const code = (ErrorCode as unknown as Record<string, unknown>)[reason];
+    return typeof code === "number" ? code : undefined;
+}
@@ -8,6 +8,11 @@ export enum MessageType {
     CREATE_ROOM = "CREATE_ROOM",
     JOIN_ROOM = "JOIN_ROOM",
     LEAVE_ROOM = "LEAVE_ROOM",
+    UPDATE_ROOM_SETTINGS = "UPDATE_ROOM_SETTINGS",
+    LOCK_ROOM = "LOCK_ROOM",
+    CLOSE_ROOM = "CLOSE_ROOM",
+    ROOM_CLOSED = "ROOM_CLOSED",
+    LIST_ROOMS = "LIST_ROOMS",
     ROOM_STATE = "ROOM_STATE",
 
     // New Week 2 Messages
@@ -16,11 +21,36 @@ export enum MessageType {
     CHAT = "CHAT",
     STATE_SNAPSHOT = "STATE_SNAPSHOT",
     HOST_CHANGED = "HOST_CHANGED",
+    TRANSFER_HOST = "TRANSFER_HOST",
+    HOST_HANDOFF = "HOST_HANDOFF",
+    HOST_READY = "HOST_READY",
+    HOST_HANDOFF_FAILED = "HOST_HANDOFF_FAILED",
     KICK = "KICK",
     KICKED = "KICKED",
+    UNBAN = "UNBAN",
+    UPDATE_PROFILE = "UPDATE_PROFILE",
+    PROFILE_UPDATED = "PROFILE_UPDATED",
+    PROMOTE_SPECTATOR = "PROMOTE_SPECTATOR",
+    SET_ROLE = "SET_ROLE",
 
     // Game Messages
     GAME_START = "GAME_START",
     GAME_ACTION = "GAME_ACTION",
     GAME_UPDATE = "GAME_UPDATE",
+    GAME_RESYNC = "GAME_RESYNC",
+
+    // Game Session Messages
+    SESSION_CREATE = "SESSION_CREATE",
+    SESSION_JOIN = "SESSION_JOIN",
+    SESSION_LEAVE = "SESSION_LEAVE",
+    SESSION_LIST = "SESSION_LIST",
+
+    // Lobby Messages (waiting sessions)
+    LOBBY_READY = "LOBBY_READY",
+    LOBBY_ASSIGN = "LOBBY_ASSIGN",
+
+    // Match History Messages
+    MATCH_RESULT = "MATCH_RESULT",
+    MATCH_HISTORY = "MATCH_HISTORY",
+    LEADERBOARD = "LEADERBOARD",
 }
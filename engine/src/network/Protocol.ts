@@ -1,4 +1,6 @@
 import { MessageType } from "./MessageTypes";
+import { DeviceCapabilities, LeaderboardEntry, MatchResult } from "./payloads";
+import { HostKey, SnapshotState } from "../states/types";
 
 export interface BaseMessage {
     type: MessageType;
@@ -9,7 +11,7 @@ export interface BaseMessage {
 // --- Connection Messages ---
 export interface PingMessage extends BaseMessage {
     type: MessageType.PING;
-    payload: { timestamp: number };
+    payload: { timestamp?: number };
 }
 
 export interface PongMessage extends BaseMessage {
@@ -24,7 +26,11 @@ export interface EchoMessage extends BaseMessage {
 
 export interface ErrorMessage extends BaseMessage {
     type: MessageType.ERROR;
-    payload: { reason: string; code?: number };
+    payload: {
+        reason: string;
+        code?: number;
+        field?: string;  // payload field that failed validation (INVALID_PAYLOAD)
+    };
 }
 
 // --- Room Messages ---
@@ -32,7 +38,9 @@ export interface CreateRoomMessage extends BaseMessage {
     type: MessageType.CREATE_ROOM;
     payload: {
         roomName?: string;
-        maxPlayers?: number;
+        maxPlayers?: number;     // Spectators do not count
+        password?: string;
+        isPrivate?: boolean;     // Unlisted: not announced on the LAN
     };
 }
 
@@ -40,9 +48,72 @@ export interface JoinRoomMessage extends BaseMessage {
     type: MessageType.JOIN_ROOM;
     payload: {
         joinCode: string;
+        asSpectator?: boolean;   // Join read-only, without taking a player slot
+        password?: string;       // Required if the room has one
+    };
+}
+
+// Changes room settings (needs the "changeSettings" permission). Omitted fields
+// stay as they are; null removes the player limit or the password.
+export interface UpdateRoomSettingsMessage extends BaseMessage {
+    type: MessageType.UPDATE_ROOM_SETTINGS;
+    payload: {
+        roomName?: string;
+        maxPlayers?: number | null;
+        password?: string | null;
+        isPrivate?: boolean;
+    };
+}
+
+// Stops (or allows again) new joins; members can still reconnect.
+export interface LockRoomMessage extends BaseMessage {
+    type: MessageType.LOCK_ROOM;
+    payload: {
+        locked: boolean;
+    };
+}
+
+export interface CloseRoomMessage extends BaseMessage {
+    type: MessageType.CLOSE_ROOM;
+    payload: {
+        reason?: string;
+    };
+}
+
+// Sent to every member of a room that was closed (by the host, or for being idle).
+export interface RoomClosedMessage extends BaseMessage {
+    type: MessageType.ROOM_CLOSED;
+    payload: {
+        roomId: string;
+        reason: string;
+    };
+}
+
+// Public room on the server, as listed in the room directory.
+export interface RoomSummary {
+    roomId: string;
+    joinCode: string;
+    name: string;
+    hostName: string;
+    members: number;
+    players: number;             // Members that are not spectators
+    maxPlayers: number | null;
+    hasPassword: boolean;
+    locked: boolean;
+    games: string[];             // Modules of the games running now
+}
+
+// Lists the public rooms on the server. With `subscribe`, the server pushes the
+// list again (same message type) whenever it changes; `subscribe: false` stops that.
+export interface ListRoomsMessage extends BaseMessage {
+    type: MessageType.LIST_ROOMS;
+    payload: {
+        subscribe?: boolean;
+        rooms?: RoomSummary[];   // Filled by server
     };
 }
 
+// Leaves the room for good; a dropped connection keeps the seat for a grace period instead.
 export interface LeaveRoomMessage extends BaseMessage {
     type: MessageType.LEAVE_ROOM;
     payload: {
@@ -65,6 +136,9 @@ export interface HelloMessage extends BaseMessage {
     payload: {
         deviceId: string;
         name: string;
+        capabilities?: DeviceCapabilities; // Scores the device for host election (0 if omitted)
+        resumeToken?: string;              // From our last WELCOME; needed to take our seat back
+        hostKey?: HostKey;                 // From our last STATE_SNAPSHOT; opens hidden game state on a new host
     };
 }
 
@@ -72,6 +146,7 @@ export interface WelcomeMessage extends BaseMessage {
     type: MessageType.WELCOME;
     payload: {
         clientId: string;
+        resumeToken: string;     // Proves it is us when we reconnect (see HelloMessage)
     };
 }
 
@@ -92,24 +167,107 @@ export interface StateSnapshotMessage extends BaseMessage {
     };
 }
 
+// Sent when a planned handoff completed: everyone reconnects to the new host.
 export interface HostChangedMessage extends BaseMessage {
     type: MessageType.HOST_CHANGED;
     payload: {
         newHostDeviceId: string;
+        serverUrl?: string;      // Where the new host's server listens
     };
 }
 
+// Host only: hands the room to another player. With `leaving` the current host
+// drops out of the room once everyone moved over.
+export interface TransferHostMessage extends BaseMessage {
+    type: MessageType.TRANSFER_HOST;
+    payload: {
+        targetDeviceId?: string; // Defaults to the next host in line
+        leaving?: boolean;
+    };
+}
+
+// Sent to the chosen successor: start a server with this room, then answer HOST_READY.
+export interface HostHandoffMessage extends BaseMessage {
+    type: MessageType.HOST_HANDOFF;
+    payload: {
+        snapshot: SnapshotState; // Full state, including hidden game state
+        previousHostLeaving: boolean;
+    };
+}
+
+export interface HostReadyMessage extends BaseMessage {
+    type: MessageType.HOST_READY;
+    payload: {
+        port: number;            // The successor's server port; its IP is taken from the connection
+    };
+}
+
+// The successor could not start its server; the old host keeps the room.
+export interface HostHandoffFailedMessage extends BaseMessage {
+    type: MessageType.HOST_HANDOFF_FAILED;
+    payload: {
+        reason: string;
+    };
+}
+
+// Removes a member and bans its device from rejoining.
 export interface KickMessage extends BaseMessage {
     type: MessageType.KICK;
     payload: {
         targetDeviceId: string;
+        reason?: string;
+        banDurationMs?: number;  // Banned until unbanned if omitted
     };
 }
 
+// Sent to the kicked member; it is no longer in the room.
 export interface KickedMessage extends BaseMessage {
     type: MessageType.KICKED;
     payload: {
         reason: string;
+        expiresAt?: number | null; // When the ban ends (host clock), null until unbanned
+    };
+}
+
+export interface UnbanMessage extends BaseMessage {
+    type: MessageType.UNBAN;
+    payload: {
+        targetDeviceId: string;
+    };
+}
+
+export interface PromoteSpectatorMessage extends BaseMessage {
+    type: MessageType.PROMOTE_SPECTATOR;
+    payload: {
+        targetDeviceId: string;
+    };
+}
+
+// Makes a member a leader or back to a regular member.
+export interface SetRoleMessage extends BaseMessage {
+    type: MessageType.SET_ROLE;
+    payload: {
+        targetDeviceId: string;
+        role: "leader" | "member";
+    };
+}
+
+// Changes our display name and/or avatar; omitted fields stay as they are.
+export interface UpdateProfileMessage extends BaseMessage {
+    type: MessageType.UPDATE_PROFILE;
+    payload: {
+        name?: string;
+        avatar?: { color?: string; emoji?: string } | null; // null removes the avatar
+    };
+}
+
+// Sent to the room after a member changed its profile.
+export interface ProfileUpdatedMessage extends BaseMessage {
+    type: MessageType.PROFILE_UPDATED;
+    payload: {
+        deviceId: string;
+        name: string;
+        avatar?: { color?: string; emoji?: string };
     };
 }
 
@@ -117,23 +275,140 @@ export interface KickedMessage extends BaseMessage {
 export interface GameStartMessage extends BaseMessage {
     type: MessageType.GAME_START;
     payload: {
-        gameId: string;
-        initialState: unknown;
+        sessionId?: string;      // Session to start; omit to quick-start a session with all members
+        moduleId?: string;       // Registered game module (quick-start; filled by server otherwise)
+        gameId?: string;         // Filled by server
+        players?: string[];      // Filled by server (deviceIds in seat order)
+        initialState?: unknown;  // Filled by server
+        updateSeq?: number;      // Filled by server: GAME_UPDATE deltas continue from here
     };
 }
 
 export interface GameActionMessage extends BaseMessage {
     type: MessageType.GAME_ACTION;
     payload: {
+        sessionId: string;
         actionType: string;
         data: unknown;
+        tick?: number;           // Target simulation tick (real-time games)
+        inputSeq?: number;       // Client counter, echoed in GAME_UPDATE.ackedInputs once processed
     };
 }
 
 export interface GameUpdateMessage extends BaseMessage {
     type: MessageType.GAME_UPDATE;
     payload: {
-        stateDelta: unknown; // Could be a full state or a diff
+        sessionId: string;
+        gameId: string;
+        updateSeq: number;       // Monotonic per session, +1 for every broadcast update
+        baseSeq?: number;        // Delta only: updateSeq of the state this delta applies to
+        encoding: "full" | "delta";
+        sequence: number;        // Number of actions applied so far
+        tick?: number;           // Simulation tick of this state (real-time games)
+        stateDelta: unknown; // Full state, or PatchOperation[] (states/stateDiff) when encoding is "delta"
+        gameOver: boolean;
+        ackedInputs?: Record<string, number>; // Last processed inputSeq per player (deviceId)
+        lastAction?: {
+            playerId: string;
+            actionType: string;
+        };
+    };
+}
+
+// Client -> server: ask for a full GAME_UPDATE after missing a delta
+export interface GameResyncMessage extends BaseMessage {
+    type: MessageType.GAME_RESYNC;
+    payload: {
+        sessionId: string;
+    };
+}
+
+// --- Game Session Messages ---
+export interface SessionSummary {
+    sessionId: string;
+    moduleId: string;
+    ownerDeviceId: string;
+    players: string[];
+    spectators: string[];
+    ready: string[];
+    status: "waiting" | "running" | "finished";
+}
+
+export interface SessionCreateMessage extends BaseMessage {
+    type: MessageType.SESSION_CREATE;
+    payload: {
+        moduleId: string;
+    };
+}
+
+export interface SessionJoinMessage extends BaseMessage {
+    type: MessageType.SESSION_JOIN;
+    payload: {
+        sessionId: string;
+        asSpectator?: boolean;
+    };
+}
+
+export interface SessionLeaveMessage extends BaseMessage {
+    type: MessageType.SESSION_LEAVE;
+    payload: {
+        sessionId: string;
+    };
+}
+
+export interface SessionListMessage extends BaseMessage {
+    type: MessageType.SESSION_LIST;
+    payload: {
+        sessions?: SessionSummary[]; // Filled by server
+    };
+}
+
+// --- Lobby Messages ---
+export interface LobbyReadyMessage extends BaseMessage {
+    type: MessageType.LOBBY_READY;
+    payload: {
+        sessionId: string;
+        ready: boolean;
+    };
+}
+
+// Picks a seat and/or team; the session owner or room host may assign other players.
+export interface LobbyAssignMessage extends BaseMessage {
+    type: MessageType.LOBBY_ASSIGN;
+    payload: {
+        sessionId: string;
+        targetDeviceId?: string; // Defaults to the sender
+        seat?: number;
+        team?: number;
+    };
+}
+
+// --- Match History Messages ---
+// Sent by the host to the room when a game finishes; every device adds it to its history.
+export interface MatchResultMessage extends BaseMessage {
+    type: MessageType.MATCH_RESULT;
+    payload: {
+        result: MatchResult;
+    };
+}
+
+// Asks the host for past matches (most recent first). The host also pushes its
+// recent history to members when they join, so their local standings catch up.
+export interface MatchHistoryMessage extends BaseMessage {
+    type: MessageType.MATCH_HISTORY;
+    payload: {
+        deviceId?: string;        // Only matches this device played in
+        moduleId?: string;
+        limit?: number;
+        matches?: MatchResult[];  // Filled by server
+    };
+}
+
+export interface LeaderboardMessage extends BaseMessage {
+    type: MessageType.LEADERBOARD;
+    payload: {
+        moduleId: string;
+        entries?: LeaderboardEntry[]; // Filled by server
     };
 }
 
@@ -147,12 +422,36 @@ export type NetworkMessage =
     | CreateRoomMessage
     | JoinRoomMessage
     | LeaveRoomMessage
+    | UpdateRoomSettingsMessage
+    | LockRoomMessage
+    | CloseRoomMessage
+    | RoomClosedMessage
+    | ListRoomsMessage
     | RoomStateMessage
     | ChatMessage
     | StateSnapshotMessage
     | HostChangedMessage
+    | TransferHostMessage
+    | HostHandoffMessage
+    | HostReadyMessage
+    | HostHandoffFailedMessage
     | KickMessage
     | KickedMessage
+    | UnbanMessage
+    | PromoteSpectatorMessage
+    | SetRoleMessage
+    | UpdateProfileMessage
+    | ProfileUpdatedMessage
     | GameStartMessage
     | GameActionMessage
-    | GameUpdateMessage;
+    | GameUpdateMessage
+    | GameResyncMessage
+    | SessionCreateMessage
+    | SessionJoinMessage
+    | SessionLeaveMessage
+    | SessionListMessage
+    | LobbyReadyMessage
+    | LobbyAssignMessage
+    | MatchResultMessage
+    | MatchHistoryMessage
+    | LeaderboardMessage;
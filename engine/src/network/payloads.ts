@@ -0,0 +1,42 @@
+/* Shared Payload Types */
+
+// Types carried in message payloads and also used by the game and server code.
+// They live with the protocol so the wire format does not depend on either.
+
+// What a device reports about itself in HELLO, so the room can pick a good host.
+export interface DeviceCapabilities {
+    memoryMb: number;          // total RAM
+    cpuCores: number;
+    platform: string;          // as in process.platform ("linux", "win32", "android", ...)
+    battery: {
+        level: number;         // 0..1
+        charging: boolean;
+    } | null;                  // null for devices without a battery (or unknown)
+}
+
+// Most matches a MATCH_HISTORY query returns.
+export const MAX_HISTORY_LIMIT = 500;
+
+// Outcome of one finished game, as kept in every device's history.
+export interface MatchResult {
+    gameId: string;
+    sessionId: string;
+    roomId: string;
+    moduleId: string;
+    players: { deviceId: string; name: string }[];
+    scores: Record<string, number>;  // per deviceId; empty if the module keeps no score
+    winners: string[];               // deviceIds; empty for a draw
+    startedAt: number;
+    endedAt: number;
+    durationMs: number;
+}
+
+export interface LeaderboardEntry {
+    deviceId: string;
+    name: string;          // most recent name the device played under
+    played: number;
+    wins: number;
+    draws: number;
+    losses: number;
+    totalScore: number;
+}
@@ -10,6 +10,20 @@ import {
   ChatMessage as NetChatMessage,
   StateSnapshotMessage,
   KickedMessage,
+  RoomClosedMessage,
+  ListRoomsMessage,
+  RoomSummary,
+  ProfileUpdatedMessage,
+  HostHandoffMessage,
+  HostChangedMessage,
+  GameStartMessage,
+  GameUpdateMessage,
+  SessionListMessage,
+  ErrorMessage,
+  WelcomeMessage,
+  MatchResultMessage,
+  MatchHistoryMessage,
+  LeaderboardMessage,
 } from "../network/Protocol";
 import { LanForgeServer } from "../server/Server";
 import {
@@ -18,22 +32,54 @@ import {
   isMessageType,
 } from "../network/Encoder";
 import { SnapshotState } from "../states/types";
+import { applyPatch, PatchOperation } from "../states/stateDiff";
+import { GameRegistry, defaultGameRegistry } from "../game/GameRegistry";
+import { GameAction, isRealtimeModule } from "../game/types";
+import { SeededRng } from "../game/SeededRng";
+import { MatchHistory, MatchHistoryQuery } from "../game/MatchHistory";
 import { logger } from "../utils/logger";
-import { startAnnounce, stopAnnounce } from "../discovery/udpAnnounce";
+import { startAnnounce, stopAnnounce, HIDDEN_JOIN_CODE } from "../discovery/udpAnnounce";
 import { startDiscovery, stopDiscovery, DiscoveredHost } from "../discovery/udpDiscovery";
+import { electHost } from "../server/hostElection";
+import { DeviceCapabilities } from "../network/payloads";
+import { detectCapabilities } from "../utils/deviceCapabilities";
+import { createInviteUri, lanAddress } from "../discovery/invite";
 
 /**
  * PeerNodeConfig describes how to start a peer:
  * - deviceId: stable per device (used for identity + leader election).
  * - serverUrl: WebSocket URL of the current host server (ws://ip:port).
  * - clientName: human-readable name for this client (for future chat/UI).
+ * - gameRegistry: game modules used to predict our own real-time actions
+ *   (and hosted if we become host); defaults to the shared registry.
+ * - hostPort: port our server listens on if we become host (default 8080).
+ * - history: where finished match results replicated by the host are kept
+ *   (and recorded to if we become host); in memory by default.
+ * - capabilities: what we report for host election; detected by default.
  */
 export type PeerNodeConfig = {
   deviceId: string;
   serverUrl: string;
   clientName: string;
+  gameRegistry?: GameRegistry;
+  hostPort?: number;
+  history?: MatchHistory;
+  capabilities?: DeviceCapabilities;
 };
 
+const DEFAULT_HOST_PORT = 8080;
+
+// How long a new host announces a private room so its former members can find it
+const MIGRATION_ANNOUNCE_MS = 30000;
+
+// How long leaveAsHost waits for the successor before leaving anyway
+const HANDOFF_WAIT_MS = 10000;
+
+// After losing the connection we try to get back to the same server this many
+// times (the server keeps our place for a grace period) before electing a new host
+const RESUME_ATTEMPTS = 3;
+const RESUME_RETRY_MS = 1000;
+
 /**
  * PeerNodeConnectionState tracks the current connection info.
  * This helps us reconnect and know which room we are in.
@@ -47,6 +93,33 @@ type PeerNodeConnectionState = {
   hostClientId: string | null;
 };
 
+/**
+ * PeerGameState is this peer's view of the game running in one session of its room,
+ * as last broadcast by the host server.
+ */
+export type PeerGameState = {
+  sessionId: string;
+  gameId: string;
+  moduleId: string;
+  players: string[];
+  state: unknown;            // confirmed by the server
+  predictedState: unknown;   // `state` plus our own inputs the server has not acknowledged yet
+  sequence: number;
+  tick: number;
+  gameOver: boolean;
+  updateSeq: number;   // last GAME_UPDATE applied, -1 if unknown (state came from a snapshot)
+};
+
+// One of our own actions the server has not acknowledged yet.
+type PendingInput = {
+  inputSeq: number;
+  requestId: string;
+  action: GameAction;
+};
+
+// Oldest pending inputs are dropped past this (e.g. inputs lost during host migration).
+const MAX_PENDING_INPUTS = 64;
+
 /**
  * PeerNode is the heart of peer-hosted architecture for a single device.
  *
@@ -62,8 +135,9 @@ export class PeerNode {
   // Stable identity of this device across reconnects (used in election later when deviceId is part of snapshot).
   private readonly deviceId: string;
 
-  // Human-visible name; in Week 2 spec this would be used for name uniqueness, chat UI, etc.
-  private readonly clientName: string;
+  // Human-visible name, unique per room. Follows our profile updates, so a
+  // HELLO after migration uses the current name.
+  private clientName: string;
 
   // Tracks current connection details (WebSocket, server URL, clientId, roomId, etc.).
   private connection: PeerNodeConnectionState;
@@ -72,12 +146,64 @@ export class PeerNode {
   // For now, we approximate it from ROOM_STATE; later this will be set from STATE_SNAPSHOT messages.
   private latestSnapshot: SnapshotState | null = null;
 
+  // Public rooms on the server, as last listed (see listRooms).
+  private roomDirectory: RoomSummary[] = [];
+
+  // Latest game state per sessionId, received via GAME_START / GAME_UPDATE or snapshots.
+  private games = new Map<string, PeerGameState>();
+
+  // Sessions we asked the server to resend in full after a GAME_UPDATE gap.
+  private pendingResyncs = new Set<string>();
+
+  // Modules used to predict real-time games locally.
+  private readonly gameRegistry: GameRegistry;
+
+  // Our unacknowledged real-time inputs per sessionId, oldest first.
+  private pendingInputs = new Map<string, PendingInput[]>();
+
+  // Counter for GAME_ACTION.inputSeq; the server echoes the highest one it processed.
+  private nextInputSeq = 1;
+
+  // Port of the server we run once elected host.
+  private readonly hostPort: number;
+
+  // Results of finished games seen in any room, kept across host migrations.
+  private readonly history: MatchHistory;
+
+  // Reported in HELLO; the room elects hosts by it (see hostElection.ts).
+  private readonly capabilities: DeviceCapabilities;
+
+  // Server we started after winning an election, if any.
+  private hostedServer: LanForgeServer | null = null;
+
+  // Set by stop(): a closed connection is then not a lost host.
+  private stopped = false;
+
+  // Fallback while waiting for another peer to announce itself as new host.
+  private migrationTimer: NodeJS.Timeout | null = null;
+
+  // Set while we announce a private room we just took over.
+  private migrationAnnounceTimer: NodeJS.Timeout | null = null;
+
   // Flag to prevent repeated election/migration logic on multiple close events.
   private isHandlingServerLoss = false;
 
+  // Issued by the server in WELCOME; lets us take our place back after a dropped connection.
+  private resumeToken: string | null = null;
+
+  // Next attempt to get back to the server we lost, if one is pending.
+  private resumeTimer: NodeJS.Timeout | null = null;
+
+  // Set by leaveAsHost: called once the successor took over (or we gave up waiting).
+  private onHandoffDone: (() => void) | null = null;
+
   constructor(config: PeerNodeConfig) {
     this.deviceId = config.deviceId;
     this.clientName = config.clientName;
+    this.gameRegistry = config.gameRegistry || defaultGameRegistry;
+    this.hostPort = config.hostPort || DEFAULT_HOST_PORT;
+    this.history = config.history || new MatchHistory();
+    this.capabilities = config.capabilities || detectCapabilities();
 
     this.connection = {
       ws: null,
@@ -117,6 +243,7 @@ export class PeerNode {
 
       ws.on("open", () => {
         logger.info("[PeerNode] connected to server");
+        this.pendingResyncs.clear();
 
         const hello: HelloMessage = {
           type: MessageType.HELLO,
@@ -125,6 +252,10 @@ export class PeerNode {
           payload: {
             deviceId: this.deviceId,
             name: this.clientName,
+            capabilities: this.capabilities,
+            resumeToken: this.resumeToken ?? undefined,
+            // Opens the hidden game state the new host holds sealed, if we are reconnecting after migration
+            hostKey: this.latestSnapshot?.hostKey,
           },
         };
         this.send(hello);
@@ -137,6 +268,8 @@ export class PeerNode {
       });
 
       ws.on("close", () => {
+        // A connection we replaced on purpose (planned handoff) is not a lost host
+        if (this.connection.ws !== ws) return;
         logger.warn("[PeerNode] server connection closed");
         this.onServerDisconnected();
       });
@@ -178,14 +311,20 @@ export class PeerNode {
 
       case MessageType.ERROR:
         // Display server errors to user
-        const errorPayload = (msg as any).payload;
-        logger.error(`[PeerNode] SERVER ERROR: ${errorPayload.reason || JSON.stringify(errorPayload)}`);
+        if (isMessageType<ErrorMessage>(msg, MessageType.ERROR)) {
+          logger.error(`[PeerNode] SERVER ERROR: ${msg.payload.reason}`);
+          this.dropRejectedInput(msg);
+        }
         break;
 
       case MessageType.WELCOME:
-        const welcomePayload = (msg as any).payload;
-        this.connection.clientId = welcomePayload.clientId;
-        logger.info(`[PeerNode] WELCOME received. clientId=${welcomePayload.clientId}`);
+        if (isMessageType<WelcomeMessage>(msg, MessageType.WELCOME)) {
+          this.connection.clientId = msg.payload.clientId;
+          this.resumeToken = msg.payload.resumeToken;
+          // GAME_UPDATE numbers are per server: a new connection (new host or resume) starts over
+          for (const game of this.games.values()) game.updateSeq = -1;
+          logger.info(`[PeerNode] WELCOME received. clientId=${msg.payload.clientId}`);
+        }
         break;
 
       case MessageType.STATE_SNAPSHOT:
@@ -198,8 +337,75 @@ export class PeerNode {
         break;
 
       case MessageType.KICKED:
+        // Closing the connection would look like a lost host, so we only leave the room
         logger.warn(`[PeerNode] YOU HAVE BEEN KICKED: ${(msg as KickedMessage).payload.reason}`);
-        this.connection.ws?.close();
+        this.forgetRoom();
+        break;
+
+      case MessageType.ROOM_CLOSED:
+        // Also stops our announce if we hosted it, so the room drops out of discovery
+        logger.warn(`[PeerNode] ROOM CLOSED: ${(msg as RoomClosedMessage).payload.reason}`);
+        this.forgetRoom();
+        break;
+
+      case MessageType.LIST_ROOMS:
+        this.roomDirectory = (msg as ListRoomsMessage).payload.rooms || [];
+        logger.info(`[PeerNode] ${this.roomDirectory.length} public room(s) on the server:`);
+        for (const room of this.roomDirectory) {
+          const capacity = room.maxPlayers !== null ? `${room.players}/${room.maxPlayers}` : `${room.players}`;
+          const flags = [room.locked ? "locked" : "", room.hasPassword ? "password" : ""].filter(Boolean).join(", ");
+          logger.info(`[PeerNode]   ${room.joinCode} "${room.name}" host=${room.hostName} players=${capacity} members=${room.members}${room.games.length ? ` playing ${room.games.join(", ")}` : ""}${flags ? ` (${flags})` : ""}`);
+        }
+        break;
+
+      case MessageType.PROFILE_UPDATED:
+        const profile = (msg as ProfileUpdatedMessage).payload;
+        if (profile.deviceId === this.deviceId) this.clientName = profile.name;
+        logger.info(`[PeerNode] ${profile.deviceId} is now ${profile.avatar?.emoji ? profile.avatar.emoji + " " : ""}${profile.name}`);
+        break;
+
+      case MessageType.HOST_HANDOFF:
+        this.handleHostHandoff(msg as HostHandoffMessage);
+        break;
+
+      case MessageType.HOST_CHANGED:
+        this.handleHostChanged(msg as HostChangedMessage);
+        break;
+
+      case MessageType.GAME_START:
+        this.handleGameStart(msg as GameStartMessage);
+        break;
+
+      case MessageType.GAME_UPDATE:
+        this.handleGameUpdate(msg as GameUpdateMessage);
+        break;
+
+      case MessageType.SESSION_LIST:
+        const sessions = (msg as SessionListMessage).payload.sessions || [];
+        logger.info(`[PeerNode] ${sessions.length} session(s) in room:`);
+        for (const session of sessions) {
+          logger.info(`[PeerNode]   ${session.sessionId} ${session.moduleId} [${session.status}] players=${session.players.length} ready=${session.ready.length} spectators=${session.spectators.length}`);
+        }
+        break;
+
+      case MessageType.MATCH_RESULT:
+        const result = (msg as MatchResultMessage).payload.result;
+        this.history.add(result);
+        logger.info(`[PeerNode] ${result.moduleId} match over: ${result.winners.length ? `won by ${result.winners.join(", ")}` : "draw"}`);
+        break;
+
+      case MessageType.MATCH_HISTORY:
+        const matches = (msg as MatchHistoryMessage).payload.matches || [];
+        const added = this.history.merge(matches);
+        logger.info(`[PeerNode] ${matches.length} match(es) in history (${added} new)`);
+        break;
+
+      case MessageType.LEADERBOARD:
+        const leaderboard = (msg as LeaderboardMessage).payload;
+        logger.info(`[PeerNode] ${leaderboard.moduleId} leaderboard:`);
+        (leaderboard.entries || []).forEach((entry, rank) => {
+          logger.info(`[PeerNode]   ${rank + 1}. ${entry.name} wins=${entry.wins} draws=${entry.draws} losses=${entry.losses} score=${entry.totalScore}`);
+        });
         break;
 
       case MessageType.ROOM_STATE:
@@ -211,6 +417,20 @@ export class PeerNode {
     }
   }
 
+  /**
+   * Drops everything we know about our room after being removed from it.
+   */
+  private forgetRoom(): void {
+    this.latestSnapshot = null;
+    this.connection.roomId = null;
+    this.connection.joinCode = null;
+    this.connection.hostClientId = null;
+    this.games.clear();
+    this.pendingInputs.clear();
+    this.pendingResyncs.clear();
+    stopAnnounce();
+  }
+
   /**
    * Stores clientId once we see it in messages (if not already known).
    * This allows us to know "who we are" relative to ROOM_STATE.hostId.
@@ -249,13 +469,190 @@ export class PeerNode {
       `[PeerNode] STATE_SNAPSHOT received. roomId=${snapshot.room.roomId}, host=${snapshot.room.hostDeviceId}, members=${snapshot.room.members.length}`
     );
 
+    // Pick up games from the snapshot if we missed their messages (e.g. after reconnecting to a new host)
+    for (const session of snapshot.sessions) {
+      if (!session.gameId) continue;
+
+      const known = this.games.get(session.sessionId);
+      if (!known || known.gameId !== session.gameId || known.sequence < session.sequence) {
+        this.games.set(session.sessionId, {
+          sessionId: session.sessionId,
+          gameId: session.gameId,
+          moduleId: session.moduleId,
+          players: [...session.players],
+          state: session.state,
+          predictedState: session.state,
+          sequence: session.sequence,
+          tick: session.tick,
+          gameOver: session.status === "finished",
+          updateSeq: -1,
+        });
+        if (known && known.gameId !== session.gameId) this.pendingInputs.delete(session.sessionId);
+        this.reconcile(session.sessionId, session.lastInputSeq);
+      }
+    }
+
+    // Forget sessions that were closed
+    for (const sessionId of [...this.games.keys()]) {
+      if (!snapshot.sessions.some(s => s.sessionId === sessionId)) {
+        this.games.delete(sessionId);
+        this.pendingInputs.delete(sessionId);
+      }
+    }
+
     // If we are the host, start announcing (for initial host scenario)
     if (snapshot.room.hostDeviceId === this.deviceId) {
-      logger.info("[PeerNode] We are the host. Starting UDP announce.");
-      this.startUdpAnnounce();
+      this.updateUdpAnnounce(snapshot);
+    }
+  }
+
+  /**
+   * Handles GAME_START from the server: a new game began in our room.
+   */
+  private handleGameStart(msg: GameStartMessage): void {
+    const { sessionId, gameId, moduleId, players, initialState, updateSeq } = msg.payload;
+    if (!sessionId || !gameId || !moduleId) return;
+
+    this.games.set(sessionId, {
+      sessionId,
+      gameId,
+      moduleId,
+      players: players || [],
+      state: initialState,
+      predictedState: initialState,
+      sequence: 0,
+      tick: 0,
+      gameOver: false,
+      updateSeq: updateSeq ?? -1,
+    });
+    this.pendingInputs.delete(sessionId);
+
+    logger.info(`[PeerNode] GAME_START received. session=${sessionId}, game=${moduleId}, gameId=${gameId}, players=${(players || []).length}`);
+  }
+
+  /**
+   * Handles GAME_UPDATE from the server: the authoritative state after an action.
+   * Deltas only apply on top of the update they were computed from; on a gap
+   * we ask the server for a full state instead. Our pending inputs are then
+   * replayed on top of the new confirmed state.
+   */
+  private handleGameUpdate(msg: GameUpdateMessage): void {
+    const update = msg.payload;
+    const game = this.games.get(update.sessionId);
+
+    if (update.encoding === "full") {
+      if (game && game.gameId === update.gameId && update.updateSeq < game.updateSeq) {
+        return; // stale full state (e.g. a resync answered after newer deltas)
+      }
+
+      const known = this.latestSnapshot?.sessions.find(sess => sess.sessionId === update.sessionId);
+      this.games.set(update.sessionId, {
+        sessionId: update.sessionId,
+        gameId: update.gameId,
+        moduleId: game ? game.moduleId : known?.moduleId || "",
+        players: game ? game.players : known ? [...known.players] : [],
+        state: update.stateDelta,
+        predictedState: update.stateDelta,
+        sequence: update.sequence,
+        tick: update.tick ?? 0,
+        gameOver: update.gameOver,
+        updateSeq: update.updateSeq,
+      });
+      this.pendingResyncs.delete(update.sessionId);
+      if (game && game.gameId !== update.gameId) this.pendingInputs.delete(update.sessionId);
+    } else {
+      if (!game || game.gameId !== update.gameId || game.updateSeq !== update.baseSeq) {
+        logger.warn(`[PeerNode] GAME_UPDATE gap in session ${update.sessionId} (have ${game ? game.updateSeq : "none"}, delta base ${update.baseSeq}). Requesting resync.`);
+        this.requestResync(update.sessionId);
+        return;
+      }
+
+      try {
+        game.state = applyPatch(game.state, update.stateDelta as PatchOperation[]);
+      } catch (err) {
+        logger.warn(`[PeerNode] could not apply GAME_UPDATE delta in session ${update.sessionId}. Requesting resync.`);
+        game.updateSeq = -1;
+        this.requestResync(update.sessionId);
+        return;
+      }
+
+      game.updateSeq = update.updateSeq;
+      game.sequence = update.sequence;
+      game.tick = update.tick ?? game.tick;
+      game.gameOver = update.gameOver;
+    }
+
+    this.reconcile(update.sessionId, update.ackedInputs);
+
+    logger.info(`[PeerNode] GAME_UPDATE received. session=${update.sessionId}, update=${update.updateSeq} (${update.encoding}), seq=${update.sequence}, gameOver=${update.gameOver}`);
+  }
+
+  /* Prediction */
+
+  // Drops inputs the server has processed, then rebuilds the predicted state.
+  private reconcile(sessionId: string, ackedInputs?: Record<string, number>): void {
+    const acked = ackedInputs?.[this.deviceId];
+    const pending = this.pendingInputs.get(sessionId);
+    if (pending && acked !== undefined) {
+      this.pendingInputs.set(sessionId, pending.filter(input => input.inputSeq > acked));
+    }
+    this.predict(sessionId);
+  }
+
+  // Rewinds to the confirmed state and re-applies our pending inputs on top of it.
+  private predict(sessionId: string): void {
+    const game = this.games.get(sessionId);
+    if (!game) return;
+
+    const pending = this.pendingInputs.get(sessionId) || [];
+    const module = this.gameRegistry.get(game.moduleId);
+    // Hidden-information games only send us a view, which the module cannot simulate
+    if (!module || module.getPlayerView || pending.length === 0 || game.gameOver) {
+      game.predictedState = game.state;
+      return;
+    }
+
+    try {
+      // Random outcomes are the host's call; the prediction only needs some stream
+      const rng = new SeededRng(0);
+      let state = module.restoreFromSnapshot(game.state);
+      for (const input of pending) {
+        // Inputs the server would reject are skipped, not fatal
+        if (module.validateAction(state, input.action) !== null) continue;
+        state = module.applyAction(state, input.action, rng);
+      }
+      game.predictedState = module.getSnapshot(state);
+    } catch (err) {
+      logger.warn(`[PeerNode] prediction failed in session ${sessionId}: ${(err as Error).message}`);
+      game.predictedState = game.state;
+    }
+  }
+
+  // The server rejected one of our inputs; stop predicting it.
+  private dropRejectedInput(msg: ErrorMessage): void {
+    for (const [sessionId, pending] of this.pendingInputs) {
+      const remaining = pending.filter(input => input.requestId !== msg.requestId);
+      if (remaining.length !== pending.length) {
+        this.pendingInputs.set(sessionId, remaining);
+        this.predict(sessionId);
+        return;
+      }
     }
   }
 
+  // Asks for a full GAME_UPDATE; at most one request in flight per session.
+  private requestResync(sessionId: string): void {
+    if (this.pendingResyncs.has(sessionId)) return;
+    this.pendingResyncs.add(sessionId);
+
+    this.send({
+      type: MessageType.GAME_RESYNC,
+      requestId: `resync-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { sessionId },
+    });
+  }
+
   /**
    * Handles ROOM_STATE updates from the server.
    * Legacy support, primary state should be STATE_SNAPSHOT.
@@ -267,11 +664,14 @@ export class PeerNode {
    * Called when the server connection is lost.
    * This is where we trigger:
    * - Logging ("server lost", "electing new host").
+   * - A few attempts to get back to the same server (a short network drop).
    * - Leader election.
    * - Either become host (start local server + UDP announce)
    *   or wait for another host (UDP discovery + reconnect).
    */
   private onServerDisconnected(): void {
+    if (this.stopped) return;
+
     if (this.isHandlingServerLoss) {
       // Avoid running election twice if close() is triggered multiple times.
       logger.warn("[PeerNode] already handling server loss, ignoring duplicate call");
@@ -280,7 +680,43 @@ export class PeerNode {
     this.isHandlingServerLoss = true;
 
     logger.warn("[PeerNode] server lost");
+    this.tryResume(RESUME_ATTEMPTS);
+  }
+
+  /**
+   * Checks whether the server we lost is reachable again; if so we reconnect and
+   * our resume token gets us our place back. Elects a new host once out of attempts.
+   */
+  private tryResume(attemptsLeft: number): void {
+    if (this.stopped) return;
+    if (attemptsLeft <= 0) {
+      this.electAfterServerLoss();
+      return;
+    }
+
+    this.resumeTimer = setTimeout(() => {
+      this.resumeTimer = null;
+      if (this.stopped) return;
+
+      let reachable = false;
+      const probe = new WebSocket(this.connection.serverUrl);
+      probe.on("open", () => {
+        reachable = true;
+        probe.close();
+        logger.info("[PeerNode] server is back, resuming our place");
+        this.isHandlingServerLoss = false;
+        this.connectToServer();
+      });
+      probe.on("error", () => {
+        // Followed by "close"
+      });
+      probe.on("close", () => {
+        if (!reachable) this.tryResume(attemptsLeft - 1);
+      });
+    }, RESUME_RETRY_MS);
+  }
 
+  private electAfterServerLoss(): void {
     // Run leader election based on our local model of the room.
     logger.info("[PeerNode] electing new host");
 
@@ -320,45 +756,24 @@ export class PeerNode {
   /**
    * Leader election logic.
    *
-   * Week 2 desired rule:
-   * - Pick client who joined first.
-   * - If tie: lowest hash(deviceId).
-   *
-   * With current protocol (only players: clientIds[]), we approximate:
-   * - Use the order of players[] as join order.
-   * - Tie breaker: lexicographically smallest clientId (as a stable deterministic choice).
-   *
-   * Once STATE_SNAPSHOT + Member.joinOrder + Member.deviceId are available on client,
-   * we will update this to match the spec exactly.
+   * Every peer ranks the members of the last snapshot it got with the shared
+   * rule in hostElection.ts (capability score, then join order, then
+   * hash(deviceId)), the same rule the server uses to name the successor, so
+   * all peers agree without talking to each other. The host we lost is not a candidate.
    */
   private runLeaderElection(): { electedDeviceId: string; electedClientId: string } | null {
     const snapshot = this.latestSnapshot;
     if (!snapshot) return null;
 
-    // Sort members by joinOrder, then by hash(deviceId)
-    const sorted = [...snapshot.room.members].sort((a, b) => {
-      if (a.joinOrder !== b.joinOrder) {
-        return a.joinOrder - b.joinOrder;
-      }
-      return this.hash(a.deviceId) - this.hash(b.deviceId);
-    });
+    const elected = electHost(snapshot.room.members, snapshot.room.hostDeviceId);
+    if (!elected) return null;
 
-    const elected = sorted[0];
     return {
       electedDeviceId: elected.deviceId,
       electedClientId: elected.clientId,
     };
   }
 
-  private hash(input: string): number {
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      hash = (hash << 5) - hash + input.charCodeAt(i);
-      hash |= 0;
-    }
-    return Math.abs(hash);
-  }
-
   /**
    * Called when this peer is elected as the new host.
    *
@@ -377,26 +792,103 @@ export class PeerNode {
     }
 
     // Start local server
-    const server = new LanForgeServer();
-    const port = 8080; // Default port
-    server.start(port);
+    const server = new LanForgeServer(this.gameRegistry, { history: this.history });
+    server.start(this.hostPort);
+    this.hostedServer = server;
 
-    // Restore room from snapshot
-    // We need to access roomManager from LanForgeServer.
-    // It's private in Server.ts, I should probably expose a restore method on Server.
-    (server as any).roomManager.restoreRoomFromSnapshot(snapshot.room);
-
-    // We also need to restore chat?
-    // RoomManager should probably handle full SnapshotState?
-    // Looking at RoomManager.restoreRoomFromSnapshot, it only takes Room object.
+    // Restore room, chat and any in-progress game from snapshot
+    server.restoreSnapshot(snapshot);
 
     logger.info("[PeerNode] restored snapshot");
 
     // Start announcing
     this.startUdpAnnounce();
 
+    // Unlisted rooms are announced just long enough for the other members to find us
+    if (snapshot.room.settings?.isPrivate) {
+      this.migrationAnnounceTimer = setTimeout(() => {
+        this.migrationAnnounceTimer = null;
+        stopAnnounce();
+        if (this.latestSnapshot) this.updateUdpAnnounce(this.latestSnapshot);
+      }, MIGRATION_ANNOUNCE_MS);
+    }
+
     // Reset loss handler for future migrations
     this.isHandlingServerLoss = false;
+
+    // Take our own seat in the restored room through the new server
+    this.connection.serverUrl = `ws://localhost:${this.hostPort}`;
+    this.connectToServer();
+  }
+
+  /**
+   * Called when the host hands the room over to us (planned migration):
+   * start our server from its snapshot, then tell the host we are ready so it
+   * can send everyone over (HOST_CHANGED). If the server cannot start (its port
+   * is taken, say), the host is told so and keeps the room.
+   */
+  private async handleHostHandoff(msg: HostHandoffMessage): Promise<void> {
+    const { snapshot, previousHostLeaving } = msg.payload;
+    logger.info(`[PeerNode] host is handing room ${snapshot.room.roomId} over to us`);
+
+    this.hostedServer?.stop();
+    const server = new LanForgeServer(this.gameRegistry, { history: this.history });
+    this.hostedServer = server;
+    try {
+      await server.start(this.hostPort);
+      server.restoreSnapshot(snapshot, { newHostDeviceId: this.deviceId, previousHostLeaving });
+    } catch (err: any) {
+      logger.error(`[PeerNode] could not take room ${snapshot.room.roomId} over`, err);
+      server.stop();
+      if (this.hostedServer === server) this.hostedServer = null;
+      this.send({
+        type: MessageType.HOST_HANDOFF_FAILED,
+        requestId: `handoff-failed-${Date.now()}`,
+        clientId: this.connection.clientId || "pending",
+        payload: { reason: err?.code || err?.message || "SERVER_START_FAILED" },
+      });
+      return;
+    }
+
+    this.send({
+      type: MessageType.HOST_READY,
+      requestId: `host-ready-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { port: this.hostPort },
+    });
+  }
+
+  /**
+   * Called when a planned handoff completed: everyone moves to the new host's
+   * server, except a host that is leaving, which is done now.
+   */
+  private handleHostChanged(msg: HostChangedMessage): void {
+    const { newHostDeviceId, serverUrl } = msg.payload;
+    logger.info(`[PeerNode] ${newHostDeviceId} is the new host`);
+
+    if (this.onHandoffDone) {
+      this.onHandoffDone();
+      return;
+    }
+
+    const isNewHost = newHostDeviceId === this.deviceId;
+    if (!isNewHost) {
+      // The server we ran (if any) shuts itself down once everyone has left it
+      stopAnnounce();
+      this.hostedServer = null;
+    }
+
+    const url = isNewHost ? `ws://localhost:${this.hostPort}` : serverUrl;
+    if (!url) {
+      logger.error("[PeerNode] HOST_CHANGED without a server to reconnect to");
+      return;
+    }
+
+    logger.info(`[PeerNode] reconnecting to ${url}`);
+    const previous = this.connection.ws;
+    this.connection.serverUrl = url;
+    this.connectToServer();
+    previous?.close();
   }
 
   /**
@@ -412,17 +904,26 @@ export class PeerNode {
     const joinCode = this.connection.joinCode;
     const hostClientId = this.connection.hostClientId; // Should be us
 
-    // We need to know which port our local server is running on.
-    // For now, assuming standard port 8080 or passed in config.
-    // TODO: Ideally Server.ts should tell us its port, or we configure it.
-    const serverPort = 8080;
+    // Our local server listens on the configured host port
+    const serverPort = this.hostPort;
 
     if (!roomId || !joinCode || !hostClientId) {
       logger.error("[PeerNode] Missing roomId, joinCode or hostId for UDP announce");
       return;
     }
 
-    startAnnounce(roomId, joinCode, hostClientId, serverPort);
+    const hidden = this.latestSnapshot?.room.settings?.isPrivate === true;
+    startAnnounce(roomId, hidden ? HIDDEN_JOIN_CODE : joinCode, hostClientId, serverPort);
+  }
+
+  // Announces the room we host unless it is private (outside of a migration).
+  private updateUdpAnnounce(snapshot: SnapshotState): void {
+    if (!snapshot.room.settings?.isPrivate) {
+      logger.info("[PeerNode] We are the host. Starting UDP announce.");
+      this.startUdpAnnounce();
+    } else if (!this.migrationAnnounceTimer) {
+      stopAnnounce();
+    }
   }
 
   /**
@@ -442,12 +943,14 @@ export class PeerNode {
     // Timeout fallback: if no host discovered in 10s, become host ourselves
     // This handles the edge case where we're the only surviving peer
     const migrationTimeout = setTimeout(() => {
+      this.migrationTimer = null;
       if (!hostDiscovered) {
         logger.warn("[PeerNode] No new host discovered after 10s. Becoming host ourselves.");
         stopDiscovery();
         this.becomeHostAfterMigration();
       }
     }, 10000);
+    this.migrationTimer = migrationTimeout;
 
     startDiscovery((host: DiscoveredHost) => {
       logger.info(`[PeerNode] Discovered potential new host: ${host.ip}:${host.port}`);
@@ -466,6 +969,7 @@ export class PeerNode {
 
       hostDiscovered = true;
       clearTimeout(migrationTimeout);
+      this.migrationTimer = null;
       stopDiscovery();
 
       // Update server URL
@@ -493,21 +997,187 @@ export class PeerNode {
    * Public API for CLI / UI
    */
 
-  public createRoom(roomName?: string): void {
+  // Leaves the network for good: closes our connection without starting an
+  // election and shuts down anything we run as host.
+  public stop(): void {
+    // Leave properly, or the server would keep our place for its grace period
+    if (this.connection.roomId && this.connection.ws?.readyState === WebSocket.OPEN) {
+      this.send({
+        type: MessageType.LEAVE_ROOM,
+        requestId: `leave-${Date.now()}`,
+        clientId: this.connection.clientId || "pending",
+        payload: { roomId: this.connection.roomId },
+      });
+    }
+
+    this.stopped = true;
+    if (this.resumeTimer) clearTimeout(this.resumeTimer);
+    if (this.migrationTimer) clearTimeout(this.migrationTimer);
+    if (this.migrationAnnounceTimer) clearTimeout(this.migrationAnnounceTimer);
+    stopAnnounce();
+    stopDiscovery();
+    this.connection.ws?.close();
+    this.hostedServer?.stop();
+    this.hostedServer = null;
+  }
+
+  // Hands the host role (and the room's server) to another player, the next in line by default.
+  public transferHost(targetDeviceId?: string): void {
+    this.send({
+      type: MessageType.TRANSFER_HOST,
+      requestId: `transfer-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { targetDeviceId },
+    });
+  }
+
+  // Leaves the network; if we host the room, it is handed over first so the
+  // others move to the successor right away instead of electing one.
+  public leaveAsHost(targetDeviceId?: string, timeoutMs: number = HANDOFF_WAIT_MS): Promise<void> {
+    const snapshot = this.latestSnapshot;
+    const hostsRoom = snapshot?.room.hostDeviceId === this.deviceId
+      && snapshot.room.members.some(m => m.deviceId !== this.deviceId && m.role !== "spectator");
+    if (!hostsRoom) {
+      this.stop();
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        logger.warn("[PeerNode] no successor took over in time, leaving anyway");
+        this.onHandoffDone?.();
+      }, timeoutMs);
+
+      this.onHandoffDone = () => {
+        clearTimeout(timer);
+        this.onHandoffDone = null;
+        this.forgetRoom();
+        this.stop();
+        resolve();
+      };
+
+      this.send({
+        type: MessageType.TRANSFER_HOST,
+        requestId: `transfer-${Date.now()}`,
+        clientId: this.connection.clientId || "pending",
+        payload: { targetDeviceId, leaving: true },
+      });
+    });
+  }
+
+  // Closes our room for everyone instead of handing it over: members get ROOM_CLOSED,
+  // so nobody starts a migration. Then leaves the network. `server` is the one
+  // hosting the room when this peer did not start it itself (host mode).
+  public shutdownHost(reason?: string, server?: LanForgeServer): void {
+    this.forgetRoom();
+    server?.shutdown(reason);
+    this.hostedServer?.shutdown(reason);
+    this.hostedServer = null;
+    this.stop();
+  }
+
+  public createRoom(
+    roomName?: string,
+    settings: { maxPlayers?: number; password?: string; isPrivate?: boolean } = {}
+  ): void {
     this.send({
       type: MessageType.CREATE_ROOM,
       requestId: `create-${Date.now()}`,
       clientId: this.connection.clientId || "pending",
-      payload: { roomName },
+      payload: { roomName, ...settings },
     });
   }
 
-  public joinRoom(joinCode: string): void {
+  public joinRoom(joinCode: string, asSpectator: boolean = false, password?: string): void {
     this.send({
       type: MessageType.JOIN_ROOM,
       requestId: `join-${Date.now()}`,
       clientId: this.connection.clientId || "pending",
-      payload: { joinCode } as any,
+      payload: { joinCode, asSpectator, password },
+    });
+  }
+
+  // Needs the "changeSettings" permission; null removes the player limit or password.
+  public updateRoomSettings(changes: {
+    roomName?: string;
+    maxPlayers?: number | null;
+    password?: string | null;
+    isPrivate?: boolean;
+  }): void {
+    this.send({
+      type: MessageType.UPDATE_ROOM_SETTINGS,
+      requestId: `room-settings-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { ...changes },
+    });
+  }
+
+  // Stops new joins to our room (or allows them again); members can still reconnect.
+  public lockRoom(locked: boolean = true): void {
+    this.send({
+      type: MessageType.LOCK_ROOM,
+      requestId: `lock-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { locked },
+    });
+  }
+
+  public closeRoom(reason?: string): void {
+    this.send({
+      type: MessageType.CLOSE_ROOM,
+      requestId: `close-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { reason },
+    });
+  }
+
+  // Needs the "kick" permission and a higher role than the target. The target is
+  // banned from the room for `banDurationMs`, or until unbanned if omitted.
+  public kick(targetDeviceId: string, reason?: string, banDurationMs?: number): void {
+    this.send({
+      type: MessageType.KICK,
+      requestId: `kick-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { targetDeviceId, reason, banDurationMs },
+    });
+  }
+
+  public unban(targetDeviceId: string): void {
+    this.send({
+      type: MessageType.UNBAN,
+      requestId: `unban-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { targetDeviceId },
+    });
+  }
+
+  // Needs the "assignRoles" permission (host only by default).
+  public setRole(targetDeviceId: string, role: "leader" | "member"): void {
+    this.send({
+      type: MessageType.SET_ROLE,
+      requestId: `set-role-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { targetDeviceId, role },
+    });
+  }
+
+  // Moderators only: lets a spectator take part as a player.
+  public promoteSpectator(targetDeviceId: string): void {
+    this.send({
+      type: MessageType.PROMOTE_SPECTATOR,
+      requestId: `promote-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { targetDeviceId },
+    });
+  }
+
+  // Changes our display name and/or avatar; pass avatar null to remove it.
+  public updateProfile(update: { name?: string; avatar?: { color?: string; emoji?: string } | null }): void {
+    this.send({
+      type: MessageType.UPDATE_PROFILE,
+      requestId: `profile-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { ...update },
     });
   }
 
@@ -520,6 +1190,177 @@ export class PeerNode {
     });
   }
 
+  public createSession(moduleId: string): void {
+    this.send({
+      type: MessageType.SESSION_CREATE,
+      requestId: `session-create-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { moduleId },
+    });
+  }
+
+  public joinSession(sessionId: string, asSpectator: boolean = false): void {
+    this.send({
+      type: MessageType.SESSION_JOIN,
+      requestId: `session-join-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { sessionId, asSpectator },
+    });
+  }
+
+  public leaveSession(sessionId: string): void {
+    this.send({
+      type: MessageType.SESSION_LEAVE,
+      requestId: `session-leave-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { sessionId },
+    });
+  }
+
+  public listSessions(): void {
+    this.send({
+      type: MessageType.SESSION_LIST,
+      requestId: `session-list-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: {},
+    });
+  }
+
+  // Lobby: tell the session we are (not) ready to play.
+  public setReady(sessionId: string, ready: boolean = true): void {
+    this.send({
+      type: MessageType.LOBBY_READY,
+      requestId: `lobby-ready-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { sessionId, ready },
+    });
+  }
+
+  // Lobby: pick our seat and/or team; as session owner or room host, pass
+  // `targetDeviceId` to assign another player.
+  public assignSeat(sessionId: string, choice: { seat?: number; team?: number }, targetDeviceId?: string): void {
+    this.send({
+      type: MessageType.LOBBY_ASSIGN,
+      requestId: `lobby-assign-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { sessionId, targetDeviceId, ...choice },
+    });
+  }
+
+  // Starts the game of a session we own (or any session, as room host).
+  public startSession(sessionId: string): void {
+    this.send({
+      type: MessageType.GAME_START,
+      requestId: `game-start-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { sessionId },
+    });
+  }
+
+  // Host only: opens a session seating every room member and starts it.
+  public startGame(moduleId: string): void {
+    this.send({
+      type: MessageType.GAME_START,
+      requestId: `game-start-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { moduleId },
+    });
+  }
+
+  // `tick` targets a simulation tick in real-time games; omit it to act on the next tick.
+  // Actions in real-time games are applied to `predictedState` right away.
+  public sendGameAction(sessionId: string, actionType: string, data: unknown, tick?: number): void {
+    const inputSeq = this.nextInputSeq++;
+    const requestId = `game-action-${inputSeq}-${Date.now()}`;
+
+    const game = this.games.get(sessionId);
+    const module = game ? this.gameRegistry.get(game.moduleId) : undefined;
+    if (game && module && isRealtimeModule(module) && !game.gameOver && game.players.includes(this.deviceId)) {
+      const pending = this.pendingInputs.get(sessionId) || [];
+      pending.push({ inputSeq, requestId, action: { playerId: this.deviceId, actionType, data } });
+      this.pendingInputs.set(sessionId, pending.slice(-MAX_PENDING_INPUTS));
+      this.predict(sessionId);
+    }
+
+    this.send({
+      type: MessageType.GAME_ACTION,
+      requestId,
+      clientId: this.connection.clientId || "pending",
+      payload: { sessionId, actionType, data, tick, inputSeq },
+    });
+  }
+
+  // Asks the host for past matches; the reply is merged into our local history.
+  public queryMatchHistory(query: MatchHistoryQuery = {}): void {
+    this.send({
+      type: MessageType.MATCH_HISTORY,
+      requestId: `match-history-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { ...query },
+    });
+  }
+
+  public queryLeaderboard(moduleId: string): void {
+    this.send({
+      type: MessageType.LEADERBOARD,
+      requestId: `leaderboard-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { moduleId },
+    });
+  }
+
+  // Asks the server for its public rooms; with `subscribe` it keeps sending the
+  // list as rooms change (false stops that, undefined leaves it as it is).
+  public listRooms(subscribe?: boolean): void {
+    this.send({
+      type: MessageType.LIST_ROOMS,
+      requestId: `rooms-${Date.now()}`,
+      clientId: this.connection.clientId || "pending",
+      payload: { subscribe },
+    });
+  }
+
+  public getRoomDirectory(): RoomSummary[] {
+    return this.roomDirectory;
+  }
+
+  // Results known on this device; usable offline for local standings.
+  public getMatchHistory(): MatchHistory {
+    return this.history;
+  }
+
+  public getGameState(sessionId: string): PeerGameState | null {
+    return this.games.get(sessionId) || null;
+  }
+
+  // lanforge:// invite to our room on the server we are connected to, or null
+  // outside of a room. A server on this device is given by its LAN address.
+  public createInvite(passwordHint?: string): string | null {
+    const snapshot = this.latestSnapshot;
+    if (!snapshot) return null;
+
+    const server = new URL(this.connection.serverUrl);
+    const host = server.hostname.replace(/^\[(.*)\]$/, "$1");
+    const isLocal = host === "localhost" || host === "127.0.0.1" || host === "::1";
+
+    return createInviteUri({
+      host: isLocal ? lanAddress() : host,
+      port: server.port ? parseInt(server.port, 10) : 80,
+      roomId: snapshot.room.roomId,
+      joinCode: snapshot.room.joinCode,
+      passwordHint,
+    });
+  }
+
+  // Latest room snapshot received from the host, if any.
+  public getRoomSnapshot(): SnapshotState | null {
+    return this.latestSnapshot;
+  }
+
+  public getSessions(): SnapshotState["sessions"] {
+    return this.latestSnapshot ? this.latestSnapshot.sessions : [];
+  }
+
   /**
    * Helper to send a message to the current server.
    */
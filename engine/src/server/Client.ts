@@ -2,6 +2,7 @@ import WebSocket from "ws";
 import { NetworkMessage } from "../network/Protocol";
 import { serializeMessage } from "../network/Encoder";
 import { logger } from "../utils/logger";
+import { DeviceCapabilities } from "../network/payloads";
 
 // Represents one connected client
 export class ClientConnection {
@@ -9,6 +10,9 @@ export class ClientConnection {
   public isConnected: boolean = true;
   public deviceId?: string;
   public name?: string;
+  public remoteAddress?: string;  // IP the client connected from
+  public capabilities?: DeviceCapabilities;  // from HELLO
+  public resumeToken?: string;  // as issued in WELCOME
 
   constructor(
     public readonly clientId: string,
@@ -1,9 +1,24 @@
 import { randomBytes } from "crypto";
-import { SnapshotState } from "../states/types";
+import { RoomSettingsSnapshot, SnapshotState } from "../states/types";
+import { GameSession } from "../game/types";
+import { GameRegistry, defaultGameRegistry } from "../game/GameRegistry";
+import { makeGameSessionSnapshot, SnapshotViewer } from "../game/sessionSnapshot";
+import { DEFAULT_PERMISSIONS, PermissionMatrix, resolvePermissions } from "./permissions";
+import { electHost, rankHostCandidates } from "./hostElection";
+import { DeviceCapabilities } from "../network/payloads";
+import { normalizeName } from "../utils/names";
+import { PasswordHash, checkPassword, hashPassword } from "../utils/id";
 
 /*Types & Interfaces*/
 
-export type Role = "host" | "member";
+// "member" is a regular player; leaders are members the host trusted with moderation.
+export type Role = "host" | "leader" | "member" | "spectator";
+
+// How a member is drawn next to its name; both parts are optional.
+export interface Avatar {
+  color?: string;        // "#rrggbb"
+  emoji?: string;
+}
 
 export interface Member {
   deviceId: string;      // stable identity
@@ -11,6 +26,16 @@ export interface Member {
   name: string;          // display name (unique per room)
   joinOrder: number;     // used for leader election
   role: Role;
+  avatar?: Avatar;
+  capabilities?: DeviceCapabilities;  // reported in HELLO; scores the member for host election
+  disconnectedAt?: number;            // set while the connection is lost; the member is removed after a grace period
+  resumeTokenHash?: string;           // hashToken of the resume token issued in WELCOME; replicated so any host can check it
+}
+
+// Profile fields a member may change; a null avatar removes it.
+export interface ProfileUpdate {
+  name?: string;
+  avatar?: Avatar | null;
 }
 
 export interface ChatMessage {
@@ -20,18 +45,50 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+// Kicked device that may not rejoin the room until the ban expires or is lifted.
+export interface Ban {
+  deviceId: string;
+  name: string;
+  reason: string;
+  bannedBy: string;            // deviceId of the member who kicked
+  bannedAt: number;
+  expiresAt: number | null;    // epoch ms on the host clock, null until unbanned
+}
+
+export interface RoomSettings {
+  name: string;
+  maxPlayers: number | null;   // players only; spectators never count. null for no limit
+  password: PasswordHash | null; // of the password required to join, null for none
+  isPrivate: boolean;          // unlisted: not announced over UDP
+}
+
+// Settings as a host sets them; the password is given in clear and stored hashed.
+export interface RoomSettingsChanges {
+  name?: string;
+  maxPlayers?: number | null;
+  password?: string | null;
+  isPrivate?: boolean;
+}
+
 export interface Room {
   roomId: string;
   joinCode: string;
   hostDeviceId: string;
+  settings: RoomSettings;
   members: Member[];
+  bans: Ban[];
   chat: ChatMessage[];
+  sessions: GameSession[];
+  permissions: PermissionMatrix; // what each role may do (see permissions.ts)
+  locked: boolean;               // no new joins; members may still reconnect
+  lastActivityAt: number;        // epoch ms of the last message from a member, for idle expiry
 }
 
 /* Constants */
 
 const JOIN_CODE_LENGTH = 6;
 const CHAT_BUFFER_LIMIT = 50;
+const MAX_EMOJI_LENGTH = 16;   // UTF-16 units; enough for joined emoji sequences
 
 /* RoomManager */
 
@@ -40,20 +97,37 @@ export class RoomManager {
   private joinCodeToRoomId = new Map<string, string>();
   private globalJoinCounter = 0;
 
+  constructor(
+    private readonly gameRegistry: GameRegistry = defaultGameRegistry,
+    private readonly permissions: PermissionMatrix = DEFAULT_PERMISSIONS
+  ) { }
+
   /* Room Creation */
 
   createRoom(
     roomId: string,
     hostDeviceId: string,
     hostClientId: string,
-    hostName: string
+    hostName: string,
+    settings: RoomSettingsChanges = {}
   ): Room {
+    const name = normalizeName(hostName);
+    if (!name) throw new Error("INVALID_NAME");
+
+    const roomSettings: RoomSettings = {
+      name: `${name}'s room`,
+      maxPlayers: null,
+      password: null,
+      isPrivate: false,
+    };
+    this.applySettings(roomSettings, settings, 1);
+
     const joinCode = this.generateJoinCode();
 
     const host: Member = {
       deviceId: hostDeviceId,
       clientId: hostClientId,
-      name: hostName,
+      name,
       joinOrder: this.globalJoinCounter++,
       role: "host",
     };
@@ -62,8 +136,14 @@ export class RoomManager {
       roomId,
       joinCode,
       hostDeviceId,
+      settings: roomSettings,
       members: [host],
+      bans: [],
       chat: [],
+      sessions: [],
+      permissions: resolvePermissions(this.permissions),
+      locked: false,
+      lastActivityAt: Date.now(),
     };
 
     this.rooms.set(roomId, room);
@@ -78,82 +158,228 @@ export class RoomManager {
     joinCode: string,
     deviceId: string,
     clientId: string,
-    name: string
+    name: string,
+    asSpectator: boolean = false,
+    password?: string
   ): Room {
     const roomId = this.joinCodeToRoomId.get(joinCode);
     if (!roomId) throw new Error("INVALID_JOIN_CODE");
 
     const room = this.rooms.get(roomId)!;
 
-    if (room.members.some(m => m.name === name)) {
+    if (this.findBan(room, deviceId)) {
+      throw new Error("BANNED");
+    }
+    if (room.locked) {
+      throw new Error("ROOM_LOCKED");
+    }
+    if (room.settings.password !== null && (typeof password !== "string" || !checkPassword(password, room.settings.password))) {
+      throw new Error("INVALID_PASSWORD");
+    }
+    if (!asSpectator && this.isFull(room)) {
+      throw new Error("ROOM_FULL");
+    }
+
+    const memberName = normalizeName(name);
+    if (!memberName) {
+      throw new Error("INVALID_NAME");
+    }
+    if (room.members.some(m => m.name === memberName)) {
       throw new Error("NAME_CONFLICT");
     }
 
     const member: Member = {
       deviceId,
       clientId,
-      name,
+      name: memberName,
       joinOrder: this.globalJoinCounter++,
-      role: "member",
+      role: asSpectator ? "spectator" : "member",
     };
 
     room.members.push(member);
     return room;
   }
 
+  /* Reconnect */
+
+  // Binds a member that comes back on a new connection (e.g. to the new host
+  // after migration) to its new clientId. Returns null if it is in no room.
+  reconnectMember(deviceId: string, clientId: string): Room | null {
+    const room = this.findRoomByDevice(deviceId);
+    if (!room) return null;
+
+    const member = room.members.find(m => m.deviceId === deviceId)!;
+    member.clientId = clientId;
+    delete member.disconnectedAt;
+    return room;
+  }
+
+  // Keeps a member whose connection dropped in the room (seat, sessions and role
+  // included) until it reconnects or the server gives up on it.
+  markDisconnected(deviceId: string, now: number = Date.now()): Room | null {
+    const room = this.findRoomByDevice(deviceId);
+    if (!room) return null;
+
+    room.members.find(m => m.deviceId === deviceId)!.disconnectedAt = now;
+    return room;
+  }
+
   /* Leave Room */
 
   leaveRoom(deviceId: string): Room | null {
     const room = this.findRoomByDevice(deviceId);
     if (!room) return null;
 
-    room.members = room.members.filter(m => m.deviceId !== deviceId);
+    return this.removeMember(room, deviceId);
+  }
 
-    if (room.members.length === 0) {
-      this.destroyRoom(room);
-      return null;
-    }
+  /* Kick Member */
 
-    if (room.hostDeviceId === deviceId) {
-      const newHostId = this.electNewHost(room.roomId);
-      room.hostDeviceId = newHostId;
+  // Permissions are checked by the server before any of the moderation calls below.
+  // Removes the member and bans its device, for `durationMs` or until unbanned.
+  kick(
+    roomId: string,
+    targetDeviceId: string,
+    bannedBy: string,
+    reason: string,
+    durationMs: number | null = null
+  ): Ban {
+    const ban = this.ban(roomId, targetDeviceId, bannedBy, reason, durationMs);
+    this.removeMember(this.rooms.get(roomId)!, targetDeviceId);
+    return ban;
+  }
 
-      room.members.forEach(m => {
-        m.role = m.deviceId === newHostId ? "host" : "member";
-      });
+  // The first half of a kick: bans a member that is still in the room. The server
+  // takes it out of its sessions before removing it (see leaveRoom).
+  ban(
+    roomId: string,
+    targetDeviceId: string,
+    bannedBy: string,
+    reason: string,
+    durationMs: number | null = null
+  ): Ban {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error("ROOM_NOT_FOUND");
+
+    const target = room.members.find(m => m.deviceId === targetDeviceId);
+    if (!target) throw new Error("MEMBER_NOT_FOUND");
+    if (targetDeviceId === bannedBy) throw new Error("CANNOT_TARGET_SELF");
+    if (targetDeviceId === room.hostDeviceId) throw new Error("INSUFFICIENT_RANK");
+
+    if (durationMs !== null && !(typeof durationMs === "number" && durationMs > 0)) {
+      throw new Error("INVALID_BAN_DURATION");
     }
 
+    const now = Date.now();
+    const ban: Ban = {
+      deviceId: targetDeviceId,
+      name: target.name,
+      reason,
+      bannedBy,
+      bannedAt: now,
+      expiresAt: durationMs === null ? null : now + durationMs,
+    };
+
+    room.bans = [...room.bans.filter(b => b.deviceId !== targetDeviceId), ban];
+    return ban;
+  }
+
+  unban(roomId: string, deviceId: string): Room {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error("ROOM_NOT_FOUND");
+
+    if (!this.findBan(room, deviceId)) throw new Error("NOT_BANNED");
+
+    room.bans = room.bans.filter(b => b.deviceId !== deviceId);
     return room;
   }
 
-  /* Kick Member */
+  /* Promote Spectator */
 
-  kick(hostDeviceId: string, targetDeviceId: string): Room {
-    const room = this.findRoomByDevice(hostDeviceId);
+  promoteSpectator(roomId: string, targetDeviceId: string): Room {
+    const room = this.rooms.get(roomId);
     if (!room) throw new Error("ROOM_NOT_FOUND");
 
-    if (room.hostDeviceId !== hostDeviceId) {
-      throw new Error("NOT_HOST");
-    }
+    const target = room.members.find(m => m.deviceId === targetDeviceId);
+    if (!target) throw new Error("MEMBER_NOT_FOUND");
+    if (target.role !== "spectator") throw new Error("NOT_A_SPECTATOR");
+    if (this.isFull(room)) throw new Error("ROOM_FULL");
+
+    target.role = "member";
+    return room;
+  }
+
+  /* Leader Roles */
+
+  // Makes a member a leader or back; the host and spectators keep their role.
+  setRole(roomId: string, targetDeviceId: string, role: Role): Room {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error("ROOM_NOT_FOUND");
+
+    if (role !== "leader" && role !== "member") throw new Error("INVALID_ROLE");
+
+    const target = room.members.find(m => m.deviceId === targetDeviceId);
+    if (!target) throw new Error("MEMBER_NOT_FOUND");
+    if (target.role !== "leader" && target.role !== "member") throw new Error("INVALID_ROLE");
+
+    target.role = role;
+    return room;
+  }
 
-    room.members = room.members.filter(m => m.deviceId !== targetDeviceId);
+  /* Room Settings */
+
+  // Applies the given changes; a null maxPlayers or password removes the limit.
+  updateSettings(roomId: string, changes: RoomSettingsChanges): Room {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error("ROOM_NOT_FOUND");
+
+    const players = room.members.filter(m => m.role !== "spectator").length;
+    const settings = { ...room.settings };
+    this.applySettings(settings, changes, players);
+
+    room.settings = settings;
     return room;
   }
 
   /* Name Change (Strict) */
 
   changeName(deviceId: string, newName: string): void {
+    this.updateProfile(deviceId, { name: newName });
+  }
+
+  // Validates the whole update before applying any of it. Names stay unique per room.
+  updateProfile(deviceId: string, update: ProfileUpdate): Member {
     const room = this.findRoomByDevice(deviceId);
     if (!room) throw new Error("ROOM_NOT_FOUND");
 
-    if (room.members.some(m => m.name === newName)) {
+    const member = room.members.find(m => m.deviceId === deviceId);
+    if (!member) throw new Error("MEMBER_NOT_FOUND");
+
+    const name = update.name === undefined ? member.name : normalizeName(update.name);
+    if (!name) {
+      throw new Error("INVALID_NAME");
+    }
+    if (room.members.some(m => m.deviceId !== deviceId && m.name === name)) {
       throw new Error("NAME_CONFLICT");
     }
 
-    const member = room.members.find(m => m.deviceId === deviceId);
-    if (!member) throw new Error("MEMBER_NOT_FOUND");
+    if (update.avatar) {
+      const { color, emoji } = update.avatar;
+      if (color !== undefined && (typeof color !== "string" || !/^#[0-9a-fA-F]{6}$/.test(color))) {
+        throw new Error("INVALID_AVATAR");
+      }
+      if (emoji !== undefined && (typeof emoji !== "string" || !/^\S+$/u.test(emoji) || emoji.length > MAX_EMOJI_LENGTH)) {
+        throw new Error("INVALID_AVATAR");
+      }
+    }
 
-    member.name = newName;
+    member.name = name;
+    if (update.avatar === null) {
+      delete member.avatar;
+    } else if (update.avatar) {
+      member.avatar = { ...member.avatar, ...update.avatar };
+    }
+    return member;
   }
 
   /* Chat Handling */
@@ -181,24 +407,143 @@ export class RoomManager {
     return msg;
   }
 
+  /* Host Transfer */
+
+  // Hands the host role to another player; the previous host stays on as a member.
+  transferHost(roomId: string, newHostDeviceId: string): Room {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error("ROOM_NOT_FOUND");
+
+    const target = room.members.find(m => m.deviceId === newHostDeviceId);
+    if (!target) throw new Error("MEMBER_NOT_FOUND");
+    if (target.role === "spectator") throw new Error("INVALID_ROLE");
+
+    room.members.forEach(m => {
+      if (m.role === "host") m.role = "member";
+    });
+    target.role = "host";
+    room.hostDeviceId = newHostDeviceId;
+    return room;
+  }
+
+  // Forgets a room that moved to another host.
+  removeRoom(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (room) this.destroyRoom(room);
+  }
+
+  get roomCount(): number {
+    return this.rooms.size;
+  }
+
+  /* Room Lifecycle */
+
+  setLocked(roomId: string, locked: boolean): Room {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error("ROOM_NOT_FOUND");
+
+    room.locked = locked;
+    return room;
+  }
+
+  // Removes the room for everyone; returns it so its members can be told.
+  closeRoom(roomId: string): Room {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error("ROOM_NOT_FOUND");
+
+    this.destroyRoom(room);
+    return room;
+  }
+
+  touch(roomId: string, now: number = Date.now()): void {
+    const room = this.rooms.get(roomId);
+    if (room) room.lastActivityAt = now;
+  }
+
+  // Rooms nobody has sent anything to for `idleMs`.
+  findIdleRooms(idleMs: number, now: number = Date.now()): Room[] {
+    return this.listRooms().filter(room => now - room.lastActivityAt >= idleMs);
+  }
+
+  listRooms(): Room[] {
+    return [...this.rooms.values()];
+  }
+
   /* Host Election */
 
   electNewHost(roomId: string): string {
     const room = this.rooms.get(roomId);
     if (!room) throw new Error("ROOM_NOT_FOUND");
 
-    const sorted = [...room.members].sort((a, b) => {
-      if (a.joinOrder !== b.joinOrder) {
-        return a.joinOrder - b.joinOrder;
-      }
-      return this.hash(a.deviceId) - this.hash(b.deviceId);
-    });
+    return rankHostCandidates(room.members)[0].deviceId;
+  }
+
+  // Member the peers would elect if the current host disappeared (same rule as PeerNode).
+  nextHostCandidate(roomId: string): string | null {
+    const room = this.rooms.get(roomId);
+    if (!room) return null;
+
+    return electHost(room.members, room.hostDeviceId)?.deviceId ?? null;
+  }
+
+  // Stores what a member's device reported about itself (see hostElection.ts).
+  setCapabilities(deviceId: string, capabilities: DeviceCapabilities | undefined): Member | null {
+    const member = this.findRoomByDevice(deviceId)?.members.find(m => m.deviceId === deviceId);
+    if (!member) return null;
+
+    if (capabilities) member.capabilities = capabilities;
+    else delete member.capabilities;
+    return member;
+  }
+
+  // Stores the hash of the resume token a member's seat goes back to (see hashToken).
+  setResumeTokenHash(deviceId: string, resumeTokenHash: string): Member | null {
+    const member = this.findRoomByDevice(deviceId)?.members.find(m => m.deviceId === deviceId);
+    if (!member) return null;
 
-    return sorted[0].deviceId;
+    member.resumeTokenHash = resumeTokenHash;
+    return member;
   }
 
   /* Helpers */
 
+  // Active ban of a device; expired bans are dropped on the way.
+  private findBan(room: Room, deviceId: string, now: number = Date.now()): Ban | undefined {
+    room.bans = room.bans.filter(b => b.expiresAt === null || b.expiresAt > now);
+    return room.bans.find(b => b.deviceId === deviceId);
+  }
+
+  private isFull(room: Room): boolean {
+    const { maxPlayers } = room.settings;
+    return maxPlayers !== null && room.members.filter(m => m.role !== "spectator").length >= maxPlayers;
+  }
+
+  // Validates `changes` and copies them into `settings`. The player limit may not
+  // drop below the `players` already in the room.
+  private applySettings(settings: RoomSettings, changes: RoomSettingsChanges, players: number): void {
+    const { name, maxPlayers, password, isPrivate } = changes;
+
+    if (name !== undefined) {
+      if (typeof name !== "string" || name.trim().length === 0) throw new Error("INVALID_SETTINGS");
+      settings.name = name.trim();
+    }
+    if (maxPlayers !== undefined) {
+      if (maxPlayers !== null && (!Number.isInteger(maxPlayers) || maxPlayers < Math.max(1, players))) {
+        throw new Error("INVALID_SETTINGS");
+      }
+      settings.maxPlayers = maxPlayers;
+    }
+    if (password !== undefined) {
+      if (password !== null && (typeof password !== "string" || password.length === 0)) {
+        throw new Error("INVALID_SETTINGS");
+      }
+      settings.password = password === null ? null : hashPassword(password);
+    }
+    if (isPrivate !== undefined) {
+      settings.isPrivate = isPrivate === true;
+    }
+  }
+
   public findRoomByDevice(deviceId: string): Room | null {
     for (const room of this.rooms.values()) {
       if (room.members.some(m => m.deviceId === deviceId)) {
@@ -208,6 +553,29 @@ export class RoomManager {
     return null;
   }
 
+  // Drops a member who left or was kicked: an empty room is destroyed (returns null),
+  // and a room that lost its host gets a new one.
+  private removeMember(room: Room, deviceId: string): Room | null {
+    room.members = room.members.filter(m => m.deviceId !== deviceId);
+
+    if (room.members.length === 0) {
+      this.destroyRoom(room);
+      return null;
+    }
+
+    if (room.hostDeviceId === deviceId) {
+      const newHostId = this.electNewHost(room.roomId);
+      room.hostDeviceId = newHostId;
+
+      // Spectators keep their role unless one had to be elected
+      room.members.forEach(m => {
+        if (m.deviceId === newHostId) m.role = "host";
+      });
+    }
+
+    return room;
+  }
+
   private destroyRoom(room: Room): void {
     this.rooms.delete(room.roomId);
     this.joinCodeToRoomId.delete(room.joinCode);
@@ -227,22 +595,14 @@ export class RoomManager {
     return code;
   }
 
-  private hash(input: string): number {
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      hash = (hash << 5) - hash + input.charCodeAt(i);
-      hash |= 0;
-    }
-    return Math.abs(hash);
-  }
-
   /* Snapshot Support */
 
   getRoom(roomId: string): Room | undefined {
     return this.rooms.get(roomId);
   }
 
-  makeSnapshot(roomId: string): SnapshotState | null {
+  // `viewer` gets its own view of hidden-information games (see makeGameSessionSnapshot).
+  makeSnapshot(roomId: string, viewer?: SnapshotViewer): SnapshotState | null {
     const room = this.rooms.get(roomId);
     if (!room) return null;
 
@@ -254,19 +614,34 @@ export class RoomManager {
       deviceIdToName[m.deviceId] = m.name;
     });
 
-    return {
+    const sessions = room.sessions.map(session =>
+      makeGameSessionSnapshot(session, this.gameRegistry, viewer)
+    );
+
+    const snapshot: SnapshotState = {
       room: {
         roomId: room.roomId,
         joinCode: room.joinCode,
         hostDeviceId: room.hostDeviceId,
-        members: room.members,
+        members: room.members.map(member => ({ ...member })),
+        bans: room.bans.map(ban => ({ ...ban })),
+        permissions: resolvePermissions(room.permissions),
+        settings: makeSettingsSnapshot(room.settings),
+        locked: room.locked,
       },
-      chat: room.chat,
+      chat: room.chat.map(message => ({ ...message })),
       identity: {
         deviceIdToClientId,
         deviceIdToName,
       },
+      sessions,
     };
+
+    // The successor's hidden state can only be opened with the key everyone else holds
+    if (viewer?.hostKey && !viewer.isSuccessor && sessions.some(session => session.partial)) {
+      snapshot.hostKey = { ...viewer.hostKey };
+    }
+    return snapshot;
   }
 
   restoreRoomFromSnapshot(room: Room): void {
@@ -275,5 +650,42 @@ export class RoomManager {
 
     // Restore joinCode lookup mapping
     this.joinCodeToRoomId.set(room.joinCode, room.roomId);
+
+    // Later joiners must rank behind the restored members in host election
+    for (const member of room.members) {
+      this.globalJoinCounter = Math.max(this.globalJoinCounter, member.joinOrder + 1);
+    }
   }
 }
+
+/* Settings Snapshots */
+
+// Settings as replicated to every member: whoever ends up hosting must enforce the
+// password, so all of them get its salted hash (never the password itself).
+export function makeSettingsSnapshot(settings: RoomSettings): RoomSettingsSnapshot {
+  const snapshot: RoomSettingsSnapshot = {
+    name: settings.name,
+    maxPlayers: settings.maxPlayers,
+    isPrivate: settings.isPrivate,
+    hasPassword: settings.password !== null,
+  };
+  if (settings.password !== null) {
+    snapshot.passwordHash = { ...settings.password };
+  }
+  return snapshot;
+}
+
+export function restoreSettings(snapshot: RoomSettingsSnapshot | undefined, fallbackName: string): RoomSettings {
+  return {
+    name: snapshot?.name ?? fallbackName,
+    maxPlayers: snapshot?.maxPlayers ?? null,
+    password: snapshot?.passwordHash ? { ...snapshot.passwordHash } : null,
+    isPrivate: snapshot?.isPrivate ?? false,
+  };
+}
+
+// A password-protected room restored without the hash to check it against
+// (e.g. from an older peer's snapshot) must not silently open up.
+export function isPasswordLost(snapshot: RoomSettingsSnapshot | undefined): boolean {
+  return snapshot?.hasPassword === true && !snapshot.passwordHash;
+}
@@ -1,37 +1,242 @@
+import path from "path";
 import WebSocket, { WebSocketServer } from "ws";
 import { ClientConnection } from "./Client";
-import { parseIncomingMessage, isMessageType } from "../network/Encoder";
+import { decodeMessage, isMessageType } from "../network/Encoder";
 import { MessageType } from "../network/MessageTypes";
 import {
   NetworkMessage,
   CreateRoomMessage,
   JoinRoomMessage,
   HelloMessage,
+  LeaveRoomMessage,
   ChatMessage,
   KickMessage,
+  UnbanMessage,
+  PromoteSpectatorMessage,
+  SetRoleMessage,
+  UpdateProfileMessage,
+  TransferHostMessage,
+  HostReadyMessage,
+  HostHandoffFailedMessage,
+  UpdateRoomSettingsMessage,
+  LockRoomMessage,
+  CloseRoomMessage,
+  ListRoomsMessage,
+  RoomSummary,
+  GameStartMessage,
+  GameActionMessage,
+  GameResyncMessage,
+  SessionCreateMessage,
+  SessionJoinMessage,
+  SessionLeaveMessage,
+  SessionListMessage,
+  LobbyReadyMessage,
+  LobbyAssignMessage,
+  MatchHistoryMessage,
+  LeaderboardMessage,
 } from "../network/Protocol";
-import { createUniqueId } from "../utils/id";
+import { ErrorCode, errorCodeFor } from "../network/ErrorCodes";
+import { createUniqueId, hashToken } from "../utils/id";
 import { logger } from "../utils/logger";
-import { RoomManager } from "./RoomManager";
+import { normalizeName } from "../utils/names";
+import { RoomManager, Room } from "./RoomManager";
+import { PermissionMatrix, refusalReason, resolvePermissions } from "./permissions";
+import { sanitizeCapabilities } from "./hostElection";
+import { GameRegistry, defaultGameRegistry } from "../game/GameRegistry";
+import { GameSessionManager } from "../game/GameSessionManager";
+import { GameSession, TURN_TIMEOUT_ACTION, isRealtimeModule } from "../game/types";
+import { TickLoop } from "../game/TickLoop";
+import { saveMatchFile } from "../game/matchFile";
+import { MatchHistory } from "../game/MatchHistory";
+import { GameSessionSnapshot, HostKey, SnapshotState } from "../states/types";
+import { restoreFromSnapshot } from "../states/restoreFromSnapshot";
+import { restoreGameSession } from "../game/sessionSnapshot";
+import { createHostKey } from "../game/hostKey";
+import { diffState } from "../states/stateDiff";
 
 // Heartbeat config
 const HEARTBEAT_INTERVAL_MS = 5000;
 const CLIENT_TIMEOUT_MS = 15000;
 
+// How often a running real-time game is written into the room snapshot
+const REALTIME_SNAPSHOT_INTERVAL_MS = 1000;
+
+// Where finished matches are recorded for replay
+const DEFAULT_MATCH_DIRECTORY = "matches";
+
+// Most recent matches pushed to a member when it joins, so its local standings catch up
+const HISTORY_SYNC_LIMIT = 500;
+
+// How long a member whose connection dropped keeps its place in the room
+const DEFAULT_RECONNECT_GRACE_MS = 30000;
+
+// Rooms nobody sends anything to for this long are closed
+const DEFAULT_ROOM_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// How long the successor of a planned handoff has to start its server
+const HANDOFF_TIMEOUT_MS = 10000;
+
+// Delay before a server left without rooms after a handoff shuts down, so HOST_CHANGED gets out
+const HANDOFF_SHUTDOWN_DELAY_MS = 1000;
+
+// State last sent per view of a session (see viewKey), with its update number.
+// `session` is the session as it was at that update: views computed later (a
+// resync, a viewer not sent to at the time) still match `updateSeq`.
+type UpdateStream = {
+  gameId: string;
+  updateSeq: number;
+  session: GameSession;
+  views: Map<string, unknown>;
+};
+
+// Opens update `updateSeq` of a session's stream. Module state is never mutated
+// in place, so keeping a reference to it freezes it.
+function openStream(session: GameSession, updateSeq: number): UpdateStream {
+  return {
+    gameId: session.gameId!,
+    updateSeq,
+    session: { ...session, lastInputSeq: { ...session.lastInputSeq } },
+    views: new Map(),
+  };
+}
+
+// Seated players of hidden-information games get their own view; everyone else shares one
+function viewKey(viewerId: string | null): string {
+  return viewerId ?? "";
+}
+
+// Planned host handoff of a room, while the successor starts its server
+type PendingHandoff = {
+  targetDeviceId: string;
+  requesterClientId: string;
+  requestId: string;
+  timer: NodeJS.Timeout;
+};
+
+// Host part of a URL for a socket's remote address (IPv4-mapped addresses are unwrapped)
+function urlHost(address: string | undefined): string {
+  if (!address) return "localhost";
+  const host = address.replace(/^::ffff:/, "");
+  return host.includes(":") ? `[${host}]` : host;
+}
+
+export type LanForgeServerOptions = {
+  // Directory for match files; null disables recording to disk.
+  matchDirectory?: string | null;
+  // Results of finished games; defaults to history.json in the match directory.
+  history?: MatchHistory;
+  // Overrides of the default role permissions for rooms created on this server.
+  permissions?: Partial<PermissionMatrix>;
+  // Closes rooms without activity for this long (30 minutes by default); null keeps them open.
+  roomIdleTimeoutMs?: number | null;
+  // How long a dropped member may take to reconnect before it leaves the room (30 seconds by default); 0 removes it at once.
+  reconnectGraceMs?: number;
+};
+
 export class LanForgeServer {
   private websocketServer!: WebSocketServer;
-  private roomManager = new RoomManager();
+  private roomManager: RoomManager;
+  private gameSessions: GameSessionManager;
 
   // Stores all connected clients
   private connectedClients = new Map<string, ClientConnection>();
 
-  // Start server on given port
-  start(port: number) {
+  // Pending turn timer per session (turn-based games only)
+  private turnTimers = new Map<string, NodeJS.Timeout>();
+
+  // Fixed-timestep simulation loop per session (real-time games only)
+  private gameLoops = new Map<string, TickLoop>();
+
+  // Last GAME_UPDATE broadcast per session; the base for the next delta
+  private updateStreams = new Map<string, UpdateStream>();
+
+  private readonly matchDirectory: string | null;
+  private readonly history: MatchHistory;
+  private readonly roomIdleTimeoutMs: number | null;
+  private readonly reconnectGraceMs: number;
+
+  // Removal of a dropped member once its grace period runs out, per deviceId
+  private graceTimers = new Map<string, NodeJS.Timeout>();
+
+  // Set between start() and stop(); connections closed by stop() leave the rooms alone
+  private running = false;
+
+  // Clients subscribed to the room directory, and the list they were sent last
+  private roomListSubscribers = new Set<string>();
+  private lastRoomList: string | null = null;
+
+  // Rooms being handed over to another host; they are frozen meanwhile
+  private handoffs = new Map<string, PendingHandoff>();
+
+  // Hidden-information sessions of migrated rooms, waiting for a member to hand in their key
+  private sealedSessions = new Map<string, { previousHostDeviceId: string; sessions: GameSessionSnapshot[] }>();
+
+  // Key sealing each room's hidden game state for its successor, with the
+  // holders it was issued for (see roomHostKey)
+  private hostKeys = new Map<string, { key: HostKey; holders: string }>();
+
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private shutdownTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly gameRegistry: GameRegistry = defaultGameRegistry,
+    options: LanForgeServerOptions = {}
+  ) {
+    this.roomManager = new RoomManager(gameRegistry, resolvePermissions(options.permissions));
+    this.gameSessions = new GameSessionManager(gameRegistry);
+    this.matchDirectory = options.matchDirectory === undefined
+      ? DEFAULT_MATCH_DIRECTORY
+      : options.matchDirectory;
+    this.history = options.history || new MatchHistory(
+      this.matchDirectory ? path.join(this.matchDirectory, "history.json") : null
+    );
+    this.roomIdleTimeoutMs = options.roomIdleTimeoutMs === undefined
+      ? DEFAULT_ROOM_IDLE_TIMEOUT_MS
+      : options.roomIdleTimeoutMs;
+    this.reconnectGraceMs = options.reconnectGraceMs ?? DEFAULT_RECONNECT_GRACE_MS;
+  }
+
+  // Rebuild a room (including any running game) from a replicated snapshot.
+  // Used by a peer that takes over as host after migration, or by the successor
+  // of a planned `handoff`, where the previous host may stay on as a member.
+  restoreSnapshot(snapshot: SnapshotState, handoff?: { newHostDeviceId: string; previousHostLeaving: boolean }) {
+    const sealed = restoreFromSnapshot(snapshot, this.roomManager, this.gameRegistry);
+
+    const roomId = snapshot.room.roomId;
+    const previousHostDeviceId = snapshot.room.hostDeviceId;
+    if (sealed.length > 0) {
+      this.sealedSessions.set(roomId, { previousHostDeviceId, sessions: sealed });
+    }
+
+    if (handoff) {
+      this.roomManager.transferHost(roomId, handoff.newHostDeviceId);
+    }
+
+    // Without a handoff the host the snapshot came from is gone; the next in line takes over the room
+    if (!handoff || handoff.previousHostLeaving) {
+      this.removeFromSessions(roomId, previousHostDeviceId);
+      this.roomManager.leaveRoom(previousHostDeviceId);
+    }
+
+    // Nobody is connected to this server yet; members get the grace period to find it
+    for (const member of this.roomManager.getRoom(roomId)?.members || []) {
+      this.dropConnection(member.deviceId);
+    }
+
+    this.resumeSessions(roomId);
+    logger.info(`Restored room ${roomId} from snapshot (sessions=${snapshot.sessions.length})`);
+  }
+
+  // Start server on given port. Resolves once it listens; a port that cannot be
+  // bound (EADDRINUSE) rejects instead of taking the whole process down.
+  start(port: number): Promise<void> {
     this.websocketServer = new WebSocketServer({ port });
+    this.running = true;
 
-    this.websocketServer.on("connection", (socket) => {
+    this.websocketServer.on("connection", (socket, request) => {
       const clientId = createUniqueId("client-");
       const client = new ClientConnection(clientId, socket);
+      client.remoteAddress = request.socket.remoteAddress;
 
       this.connectedClients.set(clientId, client);
       logger.info(`Client connected: ${clientId}`);
@@ -41,31 +246,121 @@ export class LanForgeServer {
       });
 
       socket.on("close", () => {
-        if (client.deviceId) {
-          const room = this.roomManager.leaveRoom(client.deviceId);
-          if (room) {
-            this.broadcastRoomState(room.roomId);
-          }
+        const current = client.deviceId ? this.roomManager.findRoomByDevice(client.deviceId) : null;
+
+        // Ignore a stale connection of a member that already reconnected
+        if (this.running && current && current.members.some(m => m.deviceId === client.deviceId && m.clientId === clientId)) {
+          this.dropConnection(client.deviceId!);
         }
         this.connectedClients.delete(clientId);
+        this.roomListSubscribers.delete(clientId);
         logger.info(`Client removed: ${clientId}`);
       });
     });
 
     this.startHeartbeatLoop();
-    logger.info(`LanForge server running on port ${port}`);
+    return new Promise((resolve, reject) => {
+      this.websocketServer!.once("listening", () => {
+        logger.info(`LanForge server running on port ${port}`);
+        resolve();
+      });
+      this.websocketServer!.on("error", (err) => {
+        logger.error(`LanForge server error on port ${port}`, err);
+        reject(err);
+      });
+    });
+  }
+
+  // Closes a room for good: its games stop and every member is told why.
+  // Members stay connected, outside of any room.
+  closeRoom(roomId: string, reason: string) {
+    const handoff = this.handoffs.get(roomId);
+    if (handoff) {
+      clearTimeout(handoff.timer);
+      this.handoffs.delete(roomId);
+    }
+
+    const room = this.roomManager.closeRoom(roomId);
+    this.sealedSessions.delete(roomId);
+    this.hostKeys.delete(roomId);
+    for (const session of room.sessions) {
+      this.releaseSession(session.sessionId);
+    }
+
+    for (const member of room.members) {
+      this.connectedClients.get(member.clientId)?.sendMessage({
+        type: MessageType.ROOM_CLOSED,
+        requestId: createUniqueId("room-closed-"),
+        clientId: "server",
+        payload: { roomId, reason },
+      });
+    }
+    logger.info(`Room ${roomId} closed: ${reason}`);
+    this.publishRoomList();
+  }
+
+  // Host-initiated shutdown: closes every room (so members know it is not a
+  // lost host to migrate away from), then stops the server.
+  shutdown(reason: string = "Host shut down") {
+    for (const room of this.roomManager.listRooms()) {
+      this.closeRoom(room.roomId, reason);
+    }
+    this.stop();
+  }
+
+  // Shut the server down: drops every connection and stops all timers.
+  stop() {
+    this.running = false;
+    for (const timer of this.graceTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.graceTimers.clear();
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.shutdownTimer) {
+      clearTimeout(this.shutdownTimer);
+      this.shutdownTimer = null;
+    }
+    for (const handoff of this.handoffs.values()) {
+      clearTimeout(handoff.timer);
+    }
+    this.handoffs.clear();
+    this.sealedSessions.clear();
+    this.hostKeys.clear();
+    this.roomListSubscribers.clear();
+    for (const sessionId of [...this.turnTimers.keys(), ...this.gameLoops.keys()]) {
+      this.releaseSession(sessionId);
+    }
+    for (const client of this.connectedClients.values()) {
+      client.closeConnection("Server stopped");
+    }
+    this.connectedClients.clear();
+    this.websocketServer?.close();
+    logger.info("LanForge server stopped");
   }
 
   // Handle messages received from clients
   private handleIncomingMessage(client: ClientConnection, rawData: string) {
-    const message = parseIncomingMessage(rawData);
+    // Even a malformed message shows the client is alive
+    client.updateLastSeen();
 
-    if (!message) {
-      this.sendErrorMessage(client, "Invalid message format");
+    const decoded = decodeMessage(rawData);
+    if (!decoded.ok) {
+      this.sendErrorMessage(client, decoded.error, decoded.requestId, decoded.field);
       return;
     }
+    const message = decoded.message;
 
-    client.updateLastSeen();
+    if (!this.authorize(client, message)) return;
+    if (this.blockedByHandoff(client, message)) return;
+
+    // Anything but keep-alives keeps the sender's room from expiring
+    if (message.type !== MessageType.PING && message.type !== MessageType.PONG && client.deviceId) {
+      const room = this.roomManager.findRoomByDevice(client.deviceId);
+      if (room) this.roomManager.touch(room.roomId);
+    }
 
     switch (message.type) {
       case MessageType.PING:
@@ -82,54 +377,177 @@ export class LanForgeServer {
 
       case MessageType.HELLO:
         if (isMessageType<HelloMessage>(message, MessageType.HELLO)) {
-          client.deviceId = message.payload.deviceId;
-          client.name = message.payload.name;
+          const { deviceId, resumeToken } = message.payload;
+          const name = normalizeName(message.payload.name);
+          if (!name) {
+            this.sendErrorMessage(client, "INVALID_NAME", message.requestId, "name");
+            break;
+          }
+
+          const member = this.roomManager.findRoomByDevice(deviceId)?.members.find(m => m.deviceId === deviceId);
+
+          // A member's place only goes back to the device holding its token. Its hash travels
+          // with the room, so a host restored after migration checks it just the same; a
+          // member restored without one cannot be resumed at all, only rejoin once dropped.
+          if (member && (!member.resumeTokenHash || !resumeToken || hashToken(resumeToken) !== member.resumeTokenHash)) {
+            logger.warn(`Client ${client.clientId} claimed to be ${deviceId} without its resume token`);
+            this.sendErrorMessage(client, "INVALID_RESUME_TOKEN", message.requestId);
+            break;
+          }
+          const token = member ? resumeToken! : createUniqueId("resume-");
+          client.resumeToken = token;
+
+          client.deviceId = deviceId;
+          client.name = name;
+          client.capabilities = sanitizeCapabilities(message.payload.capabilities);
           logger.info(`Client ${client.clientId} identified as ${client.name} (${client.deviceId})`);
           this.sendMessage(client, {
             type: MessageType.WELCOME,
             requestId: message.requestId,
             clientId: "server",
-            payload: { clientId: client.clientId }
+            payload: { clientId: client.clientId, resumeToken: token }
           });
+
+          // A member coming back after a dropped connection or host migration.
+          // Its previous connection, if still open, is stale now.
+          const previousClientId = member?.clientId;
+          const room = this.roomManager.reconnectMember(client.deviceId, client.clientId);
+          if (room) {
+            this.cancelGracePeriod(client.deviceId);
+            if (previousClientId && previousClientId !== client.clientId) {
+              this.connectedClients.get(previousClientId)?.closeConnection("Replaced by a new connection");
+            }
+            // The room knows the member's current name, which may differ from HELLO
+            client.name = room.members.find(m => m.deviceId === client.deviceId)!.name;
+            this.roomManager.setCapabilities(client.deviceId, client.capabilities);
+            this.roomManager.setResumeTokenHash(client.deviceId, hashToken(client.resumeToken!));
+            logger.info(`Client ${client.name} reconnected to room ${room.roomId}`);
+            if (message.payload.hostKey) {
+              this.unsealSessions(room.roomId, message.payload.hostKey);
+            }
+            this.broadcastRoomState(room.roomId);
+          }
         }
         break;
 
       case MessageType.CREATE_ROOM:
         if (isMessageType<CreateRoomMessage>(message, MessageType.CREATE_ROOM)) {
           if (!client.deviceId || !client.name) {
-            this.sendErrorMessage(client, "Must send HELLO first");
+            this.sendErrorMessage(client, "HELLO_REQUIRED", message.requestId);
             break;
           }
-          const roomId = createUniqueId("room-");
-          const room = this.roomManager.createRoom(
-            roomId,
-            client.deviceId,
-            client.clientId,
-            client.name
-          );
+          try {
+            const { roomName, maxPlayers, password, isPrivate } = message.payload;
+            const room = this.roomManager.createRoom(
+              createUniqueId("room-"),
+              client.deviceId,
+              client.clientId,
+              client.name,
+              { name: roomName, maxPlayers, password, isPrivate }
+            );
+            this.roomManager.setCapabilities(client.deviceId, client.capabilities);
+            this.roomManager.setResumeTokenHash(client.deviceId, hashToken(client.resumeToken!));
 
-          logger.info(`Room created: ${room.roomId} by ${client.name}. JoinCode: ${room.joinCode}`);
-          this.broadcastRoomState(room.roomId);
+            logger.info(`Room created: ${room.roomId} (${room.settings.name}) by ${client.name}. JoinCode: ${room.joinCode}`);
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to create room", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.UPDATE_ROOM_SETTINGS:
+        if (isMessageType<UpdateRoomSettingsMessage>(message, MessageType.UPDATE_ROOM_SETTINGS)) {
+          const current = this.getClientRoom(client, message.requestId);
+          if (!current) break;
+          try {
+            const { roomName, maxPlayers, password, isPrivate } = message.payload;
+            const room = this.roomManager.updateSettings(current.roomId, { name: roomName, maxPlayers, password, isPrivate });
+            logger.info(`Settings of room ${room.roomId} updated by ${client.name}`);
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to update room settings", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.LEAVE_ROOM:
+        if (isMessageType<LeaveRoomMessage>(message, MessageType.LEAVE_ROOM)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          logger.info(`Client ${client.name} left room ${room.roomId}`);
+          this.removeMember(room.roomId, client.deviceId!);
+        }
+        break;
+
+      case MessageType.LOCK_ROOM:
+        if (isMessageType<LockRoomMessage>(message, MessageType.LOCK_ROOM)) {
+          const current = this.getClientRoom(client, message.requestId);
+          if (!current) break;
+          try {
+            const room = this.roomManager.setLocked(current.roomId, message.payload.locked === true);
+            logger.info(`Room ${room.roomId} ${room.locked ? "locked" : "unlocked"} by ${client.name}`);
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to lock room", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.CLOSE_ROOM:
+        if (isMessageType<CloseRoomMessage>(message, MessageType.CLOSE_ROOM)) {
+          const current = this.getClientRoom(client, message.requestId);
+          if (!current) break;
+          try {
+            this.closeRoom(current.roomId, message.payload.reason || `Closed by ${client.name}`);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to close room", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.LIST_ROOMS:
+        if (isMessageType<ListRoomsMessage>(message, MessageType.LIST_ROOMS)) {
+          if (message.payload.subscribe === true) this.roomListSubscribers.add(client.clientId);
+          if (message.payload.subscribe === false) this.roomListSubscribers.delete(client.clientId);
+
+          this.sendMessage(client, {
+            type: MessageType.LIST_ROOMS,
+            requestId: message.requestId,
+            clientId: "server",
+            payload: { rooms: this.listPublicRooms() }
+          });
         }
         break;
 
       case MessageType.JOIN_ROOM:
         if (isMessageType<JoinRoomMessage>(message, MessageType.JOIN_ROOM)) {
           if (!client.deviceId || !client.name) {
-            this.sendErrorMessage(client, "Must send HELLO first");
+            this.sendErrorMessage(client, "HELLO_REQUIRED", message.requestId);
             break;
           }
           try {
+            const asSpectator = message.payload.asSpectator === true;
             const room = this.roomManager.joinRoomByCode(
               message.payload.joinCode,
               client.deviceId,
               client.clientId,
-              client.name
+              client.name,
+              asSpectator,
+              message.payload.password
             );
-            logger.info(`Client ${client.name} joined room ${room.roomId}`);
+            this.roomManager.setCapabilities(client.deviceId, client.capabilities);
+            this.roomManager.setResumeTokenHash(client.deviceId, hashToken(client.resumeToken!));
+            logger.info(`Client ${client.name} joined room ${room.roomId}${asSpectator ? " as spectator" : ""}`);
             this.broadcastRoomState(room.roomId);
+            this.sendMessage(client, {
+              type: MessageType.MATCH_HISTORY,
+              requestId: createUniqueId("history-"),
+              clientId: "server",
+              payload: { matches: this.history.query({ limit: HISTORY_SYNC_LIMIT }) },
+            });
           } catch (err: any) {
-            this.sendErrorMessage(client, err.message || "Failed to join room");
+            this.sendErrorMessage(client, err.message || "Failed to join room", message.requestId);
           }
         }
         break;
@@ -137,12 +555,12 @@ export class LanForgeServer {
       case MessageType.CHAT:
         if (isMessageType<ChatMessage>(message, MessageType.CHAT)) {
           if (!client.deviceId) {
-            this.sendErrorMessage(client, "Must send HELLO first");
+            this.sendErrorMessage(client, "HELLO_REQUIRED", message.requestId);
             break;
           }
           const room = this.roomManager.findRoomByDevice(client.deviceId);
           if (!room) {
-            this.sendErrorMessage(client, "Not in a room");
+            this.sendErrorMessage(client, "NOT_IN_ROOM", message.requestId);
             break;
           }
 
@@ -167,50 +585,960 @@ export class LanForgeServer {
         }
         break;
 
+      case MessageType.UPDATE_PROFILE:
+        if (isMessageType<UpdateProfileMessage>(message, MessageType.UPDATE_PROFILE)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            const member = this.roomManager.updateProfile(client.deviceId!, message.payload);
+            client.name = member.name;
+
+            this.broadcastToRoom(room.roomId, {
+              type: MessageType.PROFILE_UPDATED,
+              requestId: message.requestId,
+              clientId: "server",
+              payload: { deviceId: member.deviceId, name: member.name, avatar: member.avatar },
+            });
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to update profile", message.requestId);
+          }
+        }
+        break;
+
       case MessageType.KICK:
         if (isMessageType<KickMessage>(message, MessageType.KICK)) {
           if (!client.deviceId) {
-            this.sendErrorMessage(client, "Must send HELLO first");
+            this.sendErrorMessage(client, "HELLO_REQUIRED", message.requestId);
             break;
           }
+          const current = this.getClientRoom(client, message.requestId);
+          if (!current) break;
           try {
-            const room = this.roomManager.kick(client.deviceId, message.payload.targetDeviceId);
+            const { targetDeviceId, reason, banDurationMs } = message.payload;
+            const target = current.members.find(m => m.deviceId === targetDeviceId);
+            const ban = this.roomManager.ban(
+              current.roomId,
+              targetDeviceId,
+              client.deviceId!,
+              reason || `Kicked by ${client.name}`,
+              banDurationMs ?? null
+            );
+            this.removeMember(current.roomId, targetDeviceId);
+            logger.info(`Member ${targetDeviceId} kicked from room ${current.roomId}: ${ban.reason}`);
+
+            // The kicked client stays connected, outside of any room
+            const targetClient = target ? this.connectedClients.get(target.clientId) : undefined;
+            targetClient?.sendMessage({
+              type: MessageType.KICKED,
+              requestId: createUniqueId("kicked-"),
+              clientId: "server",
+              payload: { reason: ban.reason, expiresAt: ban.expiresAt },
+            });
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to kick", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.UNBAN:
+        if (isMessageType<UnbanMessage>(message, MessageType.UNBAN)) {
+          const current = this.getClientRoom(client, message.requestId);
+          if (!current) break;
+          try {
+            const room = this.roomManager.unban(current.roomId, message.payload.targetDeviceId);
+            logger.info(`Device ${message.payload.targetDeviceId} unbanned from room ${room.roomId}`);
             this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to unban", message.requestId);
+          }
+        }
+        break;
 
-            // Optionally notify the kicked client
-            // This is tricky because they might still be connected but not in room members.
+      case MessageType.PROMOTE_SPECTATOR:
+        if (isMessageType<PromoteSpectatorMessage>(message, MessageType.PROMOTE_SPECTATOR)) {
+          if (!client.deviceId) {
+            this.sendErrorMessage(client, "HELLO_REQUIRED", message.requestId);
+            break;
+          }
+          const current = this.getClientRoom(client, message.requestId);
+          if (!current) break;
+          try {
+            const room = this.roomManager.promoteSpectator(current.roomId, message.payload.targetDeviceId);
+            logger.info(`Spectator ${message.payload.targetDeviceId} promoted to player in room ${room.roomId}`);
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to promote spectator", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.SET_ROLE:
+        if (isMessageType<SetRoleMessage>(message, MessageType.SET_ROLE)) {
+          const current = this.getClientRoom(client, message.requestId);
+          if (!current) break;
+          try {
+            const { targetDeviceId, role } = message.payload;
+            const room = this.roomManager.setRole(current.roomId, targetDeviceId, role);
+            logger.info(`Member ${targetDeviceId} is now ${role} in room ${room.roomId}`);
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to set role", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.TRANSFER_HOST:
+        if (isMessageType<TransferHostMessage>(message, MessageType.TRANSFER_HOST)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            this.startHandoff(room, client, message);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to transfer host", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.HOST_READY:
+        if (isMessageType<HostReadyMessage>(message, MessageType.HOST_READY)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            this.completeHandoff(room, client, message.payload.port);
           } catch (err: any) {
-            this.sendErrorMessage(client, err.message || "Failed to kick");
+            this.sendErrorMessage(client, err.message || "Failed to complete handoff", message.requestId);
           }
         }
         break;
 
+      case MessageType.HOST_HANDOFF_FAILED:
+        if (isMessageType<HostHandoffFailedMessage>(message, MessageType.HOST_HANDOFF_FAILED)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          if (this.handoffs.get(room.roomId)?.targetDeviceId !== client.deviceId) {
+            this.sendErrorMessage(client, "HANDOFF_FAILED", message.requestId);
+            break;
+          }
+          this.abortHandoff(room.roomId, message.payload.reason);
+        }
+        break;
+
+      case MessageType.SESSION_CREATE:
+        if (isMessageType<SessionCreateMessage>(message, MessageType.SESSION_CREATE)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            const session = this.gameSessions.createSession(room, client.deviceId!, message.payload.moduleId);
+            logger.info(`Session ${session.sessionId} (${session.moduleId}) opened in room ${room.roomId} by ${client.name}`);
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to create session", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.SESSION_JOIN:
+        if (isMessageType<SessionJoinMessage>(message, MessageType.SESSION_JOIN)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            this.gameSessions.joinSession(
+              room,
+              message.payload.sessionId,
+              client.deviceId!,
+              message.payload.asSpectator === true
+            );
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to join session", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.SESSION_LEAVE:
+        if (isMessageType<SessionLeaveMessage>(message, MessageType.SESSION_LEAVE)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            const session = this.gameSessions.leaveSession(room, message.payload.sessionId, client.deviceId!);
+            if (!session) this.releaseSession(message.payload.sessionId);
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to leave session", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.SESSION_LIST:
+        if (isMessageType<SessionListMessage>(message, MessageType.SESSION_LIST)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          this.sendMessage(client, {
+            type: MessageType.SESSION_LIST,
+            requestId: message.requestId,
+            clientId: "server",
+            payload: {
+              sessions: room.sessions.map(session => ({
+                sessionId: session.sessionId,
+                moduleId: session.moduleId,
+                ownerDeviceId: session.ownerDeviceId,
+                players: [...session.players],
+                spectators: [...session.spectators],
+                ready: [...session.lobby.ready],
+                status: session.status,
+              }))
+            }
+          });
+        }
+        break;
+
+      case MessageType.LOBBY_READY:
+        if (isMessageType<LobbyReadyMessage>(message, MessageType.LOBBY_READY)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            this.gameSessions.setReady(room, message.payload.sessionId, client.deviceId!, message.payload.ready === true);
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to update ready state", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.LOBBY_ASSIGN:
+        if (isMessageType<LobbyAssignMessage>(message, MessageType.LOBBY_ASSIGN)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            const { sessionId, targetDeviceId, seat, team } = message.payload;
+            this.gameSessions.assignSeat(room, sessionId, targetDeviceId || client.deviceId!, { seat, team });
+            this.broadcastRoomState(room.roomId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to assign seat", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.GAME_START:
+        if (isMessageType<GameStartMessage>(message, MessageType.GAME_START)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            const { sessionId, moduleId } = message.payload;
+            if (!sessionId && !moduleId) throw new Error("Missing sessionId or moduleId");
+
+            // Quick start: a moderator opens a session seating every room member
+            const session = sessionId
+              ? this.gameSessions.startGame(room, sessionId)
+              : this.gameSessions.quickStart(
+                room,
+                client.deviceId!,
+                moduleId!,
+                room.members.filter(m => m.role !== "spectator").map(m => m.deviceId)
+              );
+            logger.info(`Game ${session.moduleId} started in session ${session.sessionId} of room ${room.roomId} (gameId=${session.gameId})`);
+
+            const stream = openStream(session, 0);
+            this.updateStreams.set(session.sessionId, stream);
+
+            this.broadcastToSession(room.roomId, session, viewerId => ({
+              type: MessageType.GAME_START,
+              requestId: message.requestId,
+              clientId: "server",
+              payload: {
+                sessionId: session.sessionId,
+                moduleId: session.moduleId,
+                gameId: session.gameId!,
+                players: session.players,
+                initialState: this.streamView(stream, viewerId),
+                updateSeq: 0,
+              }
+            }));
+
+            // Keep every peer's snapshot current so a new host can resume the game
+            this.broadcastRoomState(room.roomId);
+            this.scheduleTurnTimer(room.roomId, session.sessionId);
+            this.startGameLoop(room.roomId, session.sessionId);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to start game", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.GAME_ACTION:
+        if (isMessageType<GameActionMessage>(message, MessageType.GAME_ACTION)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          const { sessionId, actionType, data, tick, inputSeq } = message.payload;
+          try {
+            // Real-time inputs wait in the buffer for their tick; the loop broadcasts results
+            if (this.gameSessions.isRealtime(this.gameSessions.getSession(room, sessionId))) {
+              this.gameSessions.queueInput(room, sessionId, client.deviceId!, actionType, data, tick, inputSeq);
+              break;
+            }
+
+            const session = this.gameSessions.applyAction(room, sessionId, client.deviceId!, actionType, data, inputSeq);
+            this.broadcastGameUpdate(room.roomId, session, {
+              playerId: client.deviceId!,
+              actionType,
+            });
+            this.broadcastRoomState(room.roomId);
+            this.scheduleTurnTimer(room.roomId, sessionId);
+            this.recordFinishedMatch(room.roomId, session);
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to apply action", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.GAME_RESYNC:
+        if (isMessageType<GameResyncMessage>(message, MessageType.GAME_RESYNC)) {
+          const room = this.getClientRoom(client, message.requestId);
+          if (!room) break;
+          try {
+            const session = this.gameSessions.getSession(room, message.payload.sessionId);
+            if (!session.gameId) throw new Error("NO_ACTIVE_GAME");
+
+            // Resend the last broadcast update, state and counters as they were then,
+            // so following deltas apply on top of it
+            let current = this.updateStreams.get(session.sessionId);
+            if (!current || current.gameId !== session.gameId) {
+              current = openStream(session, 0);
+              this.updateStreams.set(session.sessionId, current);
+            }
+            const sent = current.session;
+            const viewerId = this.gameSessions.viewerFor(sent, client.deviceId!);
+
+            this.sendMessage(client, {
+              type: MessageType.GAME_UPDATE,
+              requestId: message.requestId,
+              clientId: "server",
+              payload: {
+                sessionId: sent.sessionId,
+                gameId: current.gameId,
+                updateSeq: current.updateSeq,
+                encoding: "full",
+                sequence: sent.sequence,
+                tick: sent.type === "REALTIME" ? sent.tick : undefined,
+                stateDelta: this.streamView(current, viewerId),
+                gameOver: sent.status === "finished",
+                ackedInputs: { ...sent.lastInputSeq },
+              }
+            });
+          } catch (err: any) {
+            this.sendErrorMessage(client, err.message || "Failed to resync game", message.requestId);
+          }
+        }
+        break;
+
+      case MessageType.MATCH_HISTORY:
+        if (isMessageType<MatchHistoryMessage>(message, MessageType.MATCH_HISTORY)) {
+          if (!client.deviceId) {
+            this.sendErrorMessage(client, "HELLO_REQUIRED", message.requestId);
+            break;
+          }
+          const { deviceId, moduleId, limit } = message.payload;
+          this.sendMessage(client, {
+            type: MessageType.MATCH_HISTORY,
+            requestId: message.requestId,
+            clientId: "server",
+            payload: { deviceId, moduleId, limit, matches: this.history.query({ deviceId, moduleId, limit }) },
+          });
+        }
+        break;
+
+      case MessageType.LEADERBOARD:
+        if (isMessageType<LeaderboardMessage>(message, MessageType.LEADERBOARD)) {
+          if (!client.deviceId) {
+            this.sendErrorMessage(client, "HELLO_REQUIRED", message.requestId);
+            break;
+          }
+          const { moduleId } = message.payload;
+          this.sendMessage(client, {
+            type: MessageType.LEADERBOARD,
+            requestId: message.requestId,
+            clientId: "server",
+            payload: { moduleId, entries: this.history.getLeaderboard(moduleId) },
+          });
+        }
+        break;
+
       default:
-        this.sendErrorMessage(client, "Unsupported message type");
+        this.sendErrorMessage(client, "UNSUPPORTED_MESSAGE_TYPE", message.requestId);
     }
   }
 
-  // Helper to broadcast full room state (snapshot) to all members
+  // Helper to broadcast full room state (snapshot) to all members.
+  // Each member gets its own copy so hidden game state only reaches the next host
+  // in line, sealed with a key that only the others get.
+  // Anything that changes a room goes through here, so the directory is refreshed too.
   private broadcastRoomState(roomId: string) {
-    const snapshot = this.roomManager.makeSnapshot(roomId);
-    if (!snapshot) return;
+    this.publishRoomList();
 
-    const message: NetworkMessage = {
-      type: MessageType.STATE_SNAPSHOT,
-      requestId: createUniqueId("snap-"),
-      clientId: "server",
-      payload: { snapshot }
-    };
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    const successor = this.roomManager.nextHostCandidate(roomId);
+    const requestId = createUniqueId("snap-");
+    const hostKey = this.roomHostKey(room, successor);
+
+    for (const member of room.members) {
+      const client = this.connectedClients.get(member.clientId);
+      if (!client) continue;
+
+      const snapshot = this.roomManager.makeSnapshot(roomId, {
+        deviceId: member.deviceId,
+        isSuccessor: member.deviceId === successor,
+        hostKey,
+      });
+      if (!snapshot) return;
+
+      client.sendMessage({
+        type: MessageType.STATE_SNAPSHOT,
+        requestId,
+        clientId: "server",
+        payload: { snapshot }
+      });
+    }
+  }
+
+  // The room's host key stays the same from one snapshot to the next, so a
+  // successor that missed a round still gets its state opened by the others.
+  // A new one is issued for every change of successor, members or games: no
+  // member may ever hold both a sealed state and the key that opens it.
+  private roomHostKey(room: Room, successor: string | null): HostKey {
+    const holders = [
+      successor ?? "",
+      room.members.map(m => m.deviceId).sort().join(","),
+      room.sessions.map(s => s.gameId ?? "").join(","),
+    ].join("|");
+
+    const current = this.hostKeys.get(room.roomId);
+    if (current && current.holders === holders) return current.key;
+
+    const key = createHostKey(createUniqueId("key-"));
+    this.hostKeys.set(room.roomId, { key, holders });
+    return key;
+  }
+
+  /* Room Directory */
+
+  // Rooms anyone on the server may find; private rooms are only joined by code.
+  private listPublicRooms(): RoomSummary[] {
+    return this.roomManager.listRooms()
+      .filter(room => !room.settings.isPrivate)
+      .map(room => ({
+        roomId: room.roomId,
+        joinCode: room.joinCode,
+        name: room.settings.name,
+        hostName: room.members.find(m => m.deviceId === room.hostDeviceId)?.name ?? "",
+        members: room.members.length,
+        players: room.members.filter(m => m.role !== "spectator").length,
+        maxPlayers: room.settings.maxPlayers,
+        hasPassword: room.settings.password !== null,
+        locked: room.locked,
+        games: room.sessions.filter(s => s.status === "running").map(s => s.moduleId),
+      }));
+  }
+
+  // Pushes the directory to its subscribers if it changed since the last push.
+  private publishRoomList() {
+    if (this.roomListSubscribers.size === 0) {
+      this.lastRoomList = null;
+      return;
+    }
+
+    const rooms = this.listPublicRooms();
+    const serialized = JSON.stringify(rooms);
+    if (serialized === this.lastRoomList) return;
+    this.lastRoomList = serialized;
 
+    const requestId = createUniqueId("rooms-");
+    for (const clientId of this.roomListSubscribers) {
+      this.connectedClients.get(clientId)?.sendMessage({
+        type: MessageType.LIST_ROOMS,
+        requestId,
+        clientId: "server",
+        payload: { rooms },
+      });
+    }
+  }
+
+  // Helper to broadcast the authoritative game state to a session's participants,
+  // each in the view it may see. Sends a delta against the previous broadcast of
+  // that view when there is one and it is smaller.
+  private broadcastGameUpdate(
+    roomId: string,
+    session: GameSession,
+    lastAction?: { playerId: string; actionType: string }
+  ) {
+    const previous = this.updateStreams.get(session.sessionId);
+    const continues = previous !== undefined && previous.gameId === session.gameId;
+    const stream = openStream(session, previous ? previous.updateSeq + 1 : 1);
+    this.updateStreams.set(session.sessionId, stream);
+
+    const requestId = createUniqueId("game-");
+    const encoded = new Map<string, { encoding: "full" | "delta"; stateDelta: unknown }>();
+
+    this.broadcastToSession(roomId, session, viewerId => {
+      const key = viewKey(viewerId);
+      let body = encoded.get(key);
+
+      if (!body) {
+        const state = this.streamView(stream, viewerId);
+        const base = continues ? previous!.views.get(key) : undefined;
+        body = { encoding: "full", stateDelta: state };
+
+        if (base !== undefined) {
+          const ops = diffState(base, state);
+          if (JSON.stringify(ops).length < JSON.stringify(state).length) {
+            body = { encoding: "delta", stateDelta: ops };
+          }
+        }
+        encoded.set(key, body);
+      }
+
+      return {
+        type: MessageType.GAME_UPDATE,
+        requestId,
+        clientId: "server",
+        payload: {
+          sessionId: session.sessionId,
+          gameId: session.gameId!,
+          updateSeq: stream.updateSeq,
+          baseSeq: body.encoding === "delta" ? previous!.updateSeq : undefined,
+          encoding: body.encoding,
+          sequence: session.sequence,
+          tick: session.type === "REALTIME" ? session.tick : undefined,
+          stateDelta: body.stateDelta,
+          gameOver: session.status === "finished",
+          ackedInputs: { ...session.lastInputSeq },
+          lastAction,
+        }
+      };
+    });
+  }
+
+  // State of `viewerId`'s view in a stream, computed on first use
+  private streamView(stream: UpdateStream, viewerId: string | null): unknown {
+    const key = viewKey(viewerId);
+    if (!stream.views.has(key)) {
+      stream.views.set(key, this.gameSessions.getStateView(stream.session, viewerId));
+    }
+    return stream.views.get(key);
+  }
+
+  // Starts the fixed-timestep loop if the session runs a real-time game
+  private startGameLoop(roomId: string, sessionId: string) {
+    this.stopGameLoop(sessionId);
+
+    const session = this.roomManager.getRoom(roomId)?.sessions.find(s => s.sessionId === sessionId);
+    if (!session || session.status !== "running") return;
+
+    const module = this.gameSessions.getModule(session);
+    if (!isRealtimeModule(module)) return;
+
+    const sendEvery = Math.max(1, Math.round(module.tickRate / module.sendRate));
+    const snapshotEvery = Math.max(1, Math.round(REALTIME_SNAPSHOT_INTERVAL_MS * module.tickRate / 1000));
+
+    const loop = new TickLoop(module.tickRate, () => this.onGameTick(roomId, sessionId, sendEvery, snapshotEvery));
+    this.gameLoops.set(sessionId, loop);
+    loop.start();
+
+    logger.info(`Game loop started for session ${sessionId} at ${module.tickRate} ticks/s, sending every ${sendEvery} ticks`);
+  }
+
+  private stopGameLoop(sessionId: string) {
+    const loop = this.gameLoops.get(sessionId);
+    if (loop) {
+      loop.stop();
+      this.gameLoops.delete(sessionId);
+    }
+  }
+
+  private onGameTick(roomId: string, sessionId: string, sendEvery: number, snapshotEvery: number) {
+    const room = this.roomManager.getRoom(roomId);
+    let session: GameSession | null;
+
+    try {
+      session = room ? this.gameSessions.stepTick(room, sessionId) : null;
+    } catch (err) {
+      // A failing module must not take the host, and every other room, down with it
+      logger.error(`Game loop of session ${sessionId} failed, ending the game`, err);
+      this.stopGameLoop(sessionId);
+      this.abortGame(roomId, sessionId);
+      return;
+    }
+
+    if (!session) {
+      this.stopGameLoop(sessionId);
+      return;
+    }
+
+    const finished = session.status === "finished";
+
+    if (finished || session.tick % sendEvery === 0) {
+      this.broadcastGameUpdate(roomId, session);
+    }
+
+    if (finished || session.tick % snapshotEvery === 0) {
+      this.broadcastRoomState(roomId);
+    }
+
+    if (finished) {
+      logger.info(`Real-time game ${session.gameId} finished at tick ${session.tick}`);
+      this.stopGameLoop(sessionId);
+      this.recordFinishedMatch(roomId, session);
+    }
+  }
+
+  // Ends a game its module failed on and tells the room, without recording a match
+  private abortGame(roomId: string, sessionId: string) {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room?.sessions.some(s => s.sessionId === sessionId)) return;
+
+    const session = this.gameSessions.abortGame(room, sessionId);
+    this.broadcastGameUpdate(roomId, session);
+    this.broadcastRoomState(roomId);
+  }
+
+  // (Re)arms the server-side turn timer for the game running in a session.
+  // The deadline lives in the session, so a new host re-arms it after migration.
+  private scheduleTurnTimer(roomId: string, sessionId: string) {
+    const pending = this.turnTimers.get(sessionId);
+    if (pending) {
+      clearTimeout(pending);
+      this.turnTimers.delete(sessionId);
+    }
+
+    const session = this.roomManager.getRoom(roomId)?.sessions.find(s => s.sessionId === sessionId);
+    const timer = session?.turnTimer;
+    if (!timer) return;
+
+    const handle = setTimeout(() => {
+      this.turnTimers.delete(sessionId);
+      this.onTurnTimerExpired(roomId, sessionId);
+    }, Math.max(0, timer.deadline - Date.now()));
+
+    this.turnTimers.set(sessionId, handle);
+  }
+
+  private onTurnTimerExpired(roomId: string, sessionId: string) {
     const room = this.roomManager.getRoom(roomId);
+    const timer = room?.sessions.find(s => s.sessionId === sessionId)?.turnTimer;
+    if (!room || !timer) return;
+
+    try {
+      const session = this.gameSessions.expireTurn(room, sessionId);
+      if (!session) return;
+
+      logger.info(`Turn timer expired for ${timer.playerId} in session ${sessionId}`);
+      this.broadcastGameUpdate(roomId, session, { playerId: timer.playerId, actionType: TURN_TIMEOUT_ACTION });
+      this.broadcastRoomState(roomId);
+      this.recordFinishedMatch(roomId, session);
+    } catch (err: any) {
+      logger.error(`Failed to expire turn in session ${sessionId}`, err);
+    }
+    this.scheduleTurnTimer(roomId, sessionId);
+  }
+
+  /* Host Handoff */
+
+  // Planned migration: freezes the room and sends its full snapshot to the successor,
+  // which starts a server with it and answers HOST_READY (see completeHandoff).
+  private startHandoff(room: Room, client: ClientConnection, message: TransferHostMessage) {
+    if (this.handoffs.has(room.roomId)) throw new Error("HANDOFF_IN_PROGRESS");
+
+    const targetDeviceId = message.payload.targetDeviceId || this.roomManager.nextHostCandidate(room.roomId);
+    const target = room.members.find(m => m.deviceId === targetDeviceId);
+    if (!target || target.deviceId === client.deviceId) throw new Error("MEMBER_NOT_FOUND");
+    if (target.role === "spectator") throw new Error("INVALID_ROLE");
+
+    const targetClient = this.connectedClients.get(target.clientId);
+    if (!targetClient) throw new Error("HANDOFF_FAILED");
+
+    this.pauseSessions(room.roomId);
+    this.handoffs.set(room.roomId, {
+      targetDeviceId: target.deviceId,
+      requesterClientId: client.clientId,
+      requestId: message.requestId,
+      timer: setTimeout(() => this.abortHandoff(room.roomId), HANDOFF_TIMEOUT_MS),
+    });
+
+    targetClient.sendMessage({
+      type: MessageType.HOST_HANDOFF,
+      requestId: createUniqueId("handoff-"),
+      clientId: "server",
+      payload: {
+        snapshot: this.roomManager.makeSnapshot(room.roomId)!,
+        previousHostLeaving: message.payload.leaving === true,
+      },
+    });
+    logger.info(`Handing room ${room.roomId} over to ${target.name}`);
+  }
+
+  // The successor's server is up: sends everyone there and lets go of the room.
+  private completeHandoff(room: Room, client: ClientConnection, port: number) {
+    const handoff = this.handoffs.get(room.roomId);
+    if (!handoff || handoff.targetDeviceId !== client.deviceId) throw new Error("HANDOFF_FAILED");
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) throw new Error("HANDOFF_FAILED");
+
+    clearTimeout(handoff.timer);
+    this.handoffs.delete(room.roomId);
+
+    const serverUrl = `ws://${urlHost(client.remoteAddress)}:${port}`;
+    this.broadcastToRoom(room.roomId, {
+      type: MessageType.HOST_CHANGED,
+      requestId: createUniqueId("host-changed-"),
+      clientId: "server",
+      payload: { newHostDeviceId: client.deviceId!, serverUrl },
+    });
+    logger.info(`Room ${room.roomId} handed over to ${client.name} at ${serverUrl}`);
+
+    for (const session of room.sessions) {
+      this.releaseSession(session.sessionId);
+    }
+    this.roomManager.removeRoom(room.roomId);
+    this.hostKeys.delete(room.roomId);
+    this.publishRoomList();
+
+    if (this.roomManager.roomCount === 0) {
+      this.shutdownTimer = setTimeout(() => this.stop(), HANDOFF_SHUTDOWN_DELAY_MS);
+    }
+  }
+
+  // The successor could not get its server up, or not in time; the room carries on here.
+  private abortHandoff(roomId: string, reason = "timed out") {
+    const handoff = this.handoffs.get(roomId);
+    if (!handoff) return;
+
+    clearTimeout(handoff.timer);
+    this.handoffs.delete(roomId);
+    this.resumeSessions(roomId);
+    logger.warn(`Handoff of room ${roomId} to ${handoff.targetDeviceId} failed: ${reason}`);
+
+    const requester = this.connectedClients.get(handoff.requesterClientId);
+    if (requester) {
+      this.sendErrorMessage(requester, "HANDOFF_FAILED", handoff.requestId);
+    }
+  }
+
+  // While a room is handed over it must not change any more: the new host would
+  // never see it. Keep-alives and the successor's answer still go through.
+  private blockedByHandoff(client: ClientConnection, message: NetworkMessage): boolean {
+    if (
+      message.type === MessageType.PING ||
+      message.type === MessageType.PONG ||
+      message.type === MessageType.HOST_READY ||
+      message.type === MessageType.HOST_HANDOFF_FAILED
+    ) {
+      return false;
+    }
+    const room = client.deviceId ? this.roomManager.findRoomByDevice(client.deviceId) : null;
+    if (!room || !this.handoffs.has(room.roomId)) return false;
+
+    this.sendErrorMessage(client, "HANDOFF_IN_PROGRESS", message.requestId);
+    return true;
+  }
+
+  // Stops the turn timers and simulation loops of a room's games (see resumeSessions).
+  private pauseSessions(roomId: string) {
+    for (const session of this.roomManager.getRoom(roomId)?.sessions || []) {
+      const pending = this.turnTimers.get(session.sessionId);
+      if (pending) {
+        clearTimeout(pending);
+        this.turnTimers.delete(session.sessionId);
+      }
+      this.stopGameLoop(session.sessionId);
+    }
+  }
+
+  private resumeSessions(roomId: string) {
+    for (const session of this.roomManager.getRoom(roomId)?.sessions || []) {
+      this.scheduleTurnTimer(roomId, session.sessionId);
+      this.startGameLoop(roomId, session.sessionId);
+    }
+  }
+
+  /* Presence */
+
+  // Marks a member whose connection is gone as disconnected and removes it
+  // once the grace period runs out without it coming back (at once without one).
+  private dropConnection(deviceId: string) {
+    const room = this.roomManager.findRoomByDevice(deviceId);
+    if (!room) return;
+
+    if (this.reconnectGraceMs <= 0) {
+      this.removeMember(room.roomId, deviceId);
+      return;
+    }
+
+    this.roomManager.markDisconnected(deviceId);
+    this.cancelGracePeriod(deviceId);
+    this.graceTimers.set(deviceId, setTimeout(() => {
+      this.graceTimers.delete(deviceId);
+
+      const current = this.roomManager.findRoomByDevice(deviceId);
+      const member = current?.members.find(m => m.deviceId === deviceId);
+      if (!current || member?.disconnectedAt === undefined) return;
+
+      logger.info(`Member ${member.name} did not reconnect within ${this.reconnectGraceMs}ms`);
+      this.removeMember(current.roomId, deviceId);
+    }, this.reconnectGraceMs));
+
+    this.broadcastRoomState(room.roomId);
+  }
+
+  private cancelGracePeriod(deviceId: string) {
+    const timer = this.graceTimers.get(deviceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.graceTimers.delete(deviceId);
+    }
+  }
+
+  // Takes a member out of its room and its sessions for good.
+  private removeMember(roomId: string, deviceId: string) {
+    this.cancelGracePeriod(deviceId);
+    this.removeFromSessions(roomId, deviceId);
+
+    const room = this.roomManager.leaveRoom(deviceId);
     if (room) {
-      for (const member of room.members) {
-        const client = this.connectedClients.get(member.clientId);
-        if (client) {
-          client.sendMessage(message);
+      this.broadcastRoomState(room.roomId);
+    } else {
+      this.sealedSessions.delete(roomId);
+      this.publishRoomList();
+    }
+  }
+
+  // Restores the hidden-information games of a migrated room that `hostKey` opens.
+  // A key that opens nothing (stale round, or forged) leaves them sealed for the next member.
+  private unsealSessions(roomId: string, hostKey: HostKey) {
+    const pending = this.sealedSessions.get(roomId);
+    const room = this.roomManager.getRoom(roomId);
+    if (!pending || !room) return;
+
+    const stillSealed: GameSessionSnapshot[] = [];
+    for (const snapshot of pending.sessions) {
+      try {
+        this.gameSessions.restoreSession(room, restoreGameSession(snapshot, this.gameRegistry, hostKey));
+        logger.info(`Unsealed session ${snapshot.sessionId} of room ${roomId}`);
+      } catch (err: any) {
+        if (err.message === "HIDDEN_STATE_SEALED") {
+          stillSealed.push(snapshot);
+        } else {
+          logger.warn(`Dropping sealed session ${snapshot.sessionId}: ${err.message}`);
         }
       }
     }
+
+    if (stillSealed.length > 0) {
+      this.sealedSessions.set(roomId, { ...pending, sessions: stillSealed });
+    } else {
+      this.sealedSessions.delete(roomId);
+    }
+    if (stillSealed.length < pending.sessions.length) {
+      // The host the snapshot came from is gone from these games too (see restoreSnapshot)
+      this.removeFromSessions(roomId, pending.previousHostDeviceId);
+      this.resumeSessions(roomId);
+    }
+  }
+
+  // Stops timers and forgets the update stream of a closed session
+  private releaseSession(sessionId: string) {
+    const pending = this.turnTimers.get(sessionId);
+    if (pending) {
+      clearTimeout(pending);
+      this.turnTimers.delete(sessionId);
+    }
+    this.stopGameLoop(sessionId);
+    this.updateStreams.delete(sessionId);
+  }
+
+  // Removes a member who is leaving the room from its sessions (before the room forgets it)
+  private removeFromSessions(roomId: string, deviceId: string) {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    const before = room.sessions.map(s => s.sessionId);
+    this.gameSessions.removeMember(room, deviceId);
+
+    for (const sessionId of before) {
+      if (!room.sessions.some(s => s.sessionId === sessionId)) {
+        this.releaseSession(sessionId);
+      }
+    }
+  }
+
+  // Writes the action log of a finished game to the match directory, adds its
+  // result to the history and sends the result to the room to replicate it
+  private recordFinishedMatch(roomId: string, session: GameSession) {
+    if (session.status !== "finished") return;
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    try {
+      if (this.matchDirectory) {
+        const filePath = saveMatchFile(this.gameSessions.getMatchRecord(session), this.matchDirectory);
+        logger.info(`Match ${session.gameId} recorded to ${filePath}`);
+      }
+    } catch (err) {
+      logger.error(`Failed to record match ${session.gameId}`, err);
+    }
+    this.gameSessions.releaseMatchRecord(session);
+
+    try {
+      const result = this.gameSessions.getMatchResult(room, session);
+      this.history.add(result);
+      this.broadcastToRoom(roomId, {
+        type: MessageType.MATCH_RESULT,
+        requestId: createUniqueId("result-"),
+        clientId: "server",
+        payload: { result },
+      });
+    } catch (err) {
+      logger.error(`Failed to record result of match ${session.gameId}`, err);
+    }
+  }
+
+  // Helper to send a message to a session's players and spectators, built for
+  // the view each of them may see. Room spectators follow every session through
+  // the spectator channel and never hold a seat, so they share the public view.
+  private broadcastToSession(
+    roomId: string,
+    session: GameSession,
+    messageFor: (viewerId: string | null) => NetworkMessage
+  ) {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    for (const member of room.members) {
+      if (member.role === "spectator") continue;
+      if (!session.players.includes(member.deviceId) && !session.spectators.includes(member.deviceId)) {
+        continue;
+      }
+      const client = this.connectedClients.get(member.clientId);
+      if (client) {
+        client.sendMessage(messageFor(this.gameSessions.viewerFor(session, member.deviceId)));
+      }
+    }
+
+    this.broadcastToSpectators(roomId, messageFor(null));
+  }
+
+  // Helper to send a message to the room's spectators only
+  private broadcastToSpectators(roomId: string, message: NetworkMessage) {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    for (const member of room.members) {
+      if (member.role !== "spectator") continue;
+      const client = this.connectedClients.get(member.clientId);
+      if (client) {
+        client.sendMessage(message);
+      }
+    }
   }
 
   // Helper to broadcast to a specific room
@@ -240,19 +1568,51 @@ export class LanForgeServer {
     }
   }
 
+  // Single enforcement point of the room's permission matrix, run before any
+  // handler. Replies with an ERROR and returns false if the sender may not do this.
+  // Clients outside a room pass; the handlers report that themselves.
+  private authorize(client: ClientConnection, message: NetworkMessage): boolean {
+    const room = client.deviceId ? this.roomManager.findRoomByDevice(client.deviceId) : null;
+    const sender = room?.members.find(m => m.deviceId === client.deviceId);
+    if (!room || !sender) return true;
+
+    const reason = refusalReason(room, sender, message);
+    if (!reason) return true;
+
+    logger.warn(`${message.type} from ${client.name} (${sender.role}) refused: ${reason}`);
+    this.sendErrorMessage(client, reason, message.requestId);
+    return false;
+  }
+
+  // Room of an identified client, or null after replying with an error to `requestId`
+  private getClientRoom(client: ClientConnection, requestId: string): Room | null {
+    if (!client.deviceId) {
+      this.sendErrorMessage(client, "HELLO_REQUIRED", requestId);
+      return null;
+    }
+    const room = this.roomManager.findRoomByDevice(client.deviceId);
+    if (!room) {
+      this.sendErrorMessage(client, "NOT_IN_ROOM", requestId);
+      return null;
+    }
+    return room;
+  }
+
   // Send error message to client
-  private sendErrorMessage(client: ClientConnection, reason: string) {
+  // `requestId` echoes the request that failed, when the client needs to match it up.
+  // Reasons without a code of their own (unexpected failures) go out as INTERNAL_ERROR.
+  private sendErrorMessage(client: ClientConnection, reason: string, requestId?: string, field?: string) {
     this.sendMessage(client, {
       type: MessageType.ERROR,
-      requestId: createUniqueId("error-"),
+      requestId: requestId || createUniqueId("error-"),
       clientId: "server",
-      payload: { reason },
+      payload: { reason, code: errorCodeFor(reason) ?? ErrorCode.INTERNAL_ERROR, field },
     });
   }
 
   // Periodically checks client health
   private startHeartbeatLoop() {
-    setInterval(() => {
+    this.heartbeatTimer = setInterval(() => {
       const currentTime = Date.now();
 
       for (const [clientId, client] of this.connectedClients) {
@@ -270,6 +1630,12 @@ export class LanForgeServer {
           });
         }
       }
+
+      if (this.roomIdleTimeoutMs !== null) {
+        for (const room of this.roomManager.findIdleRooms(this.roomIdleTimeoutMs, currentTime)) {
+          this.closeRoom(room.roomId, "Closed for inactivity");
+        }
+      }
     }, HEARTBEAT_INTERVAL_MS);
   }
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { DeviceCapabilities } from "../network/payloads";
+
+/* Types & Interfaces */
+
+// The parts of a member the election looks at.
+export interface HostCandidate {
+  deviceId: string;
+  joinOrder: number;
+  role: string;
+  capabilities?: DeviceCapabilities;
+  disconnectedAt?: number;
+}
+
+/* Constants */
+
+// Points per GiB of RAM and per CPU core, each capped so a workstation does not
+// win on raw size alone
+const MEMORY_POINTS_PER_GB = 4;
+const MAX_MEMORY_GB = 16;
+const CPU_POINTS_PER_CORE = 3;
+const MAX_CPU_CORES = 16;
+
+// Penalties for devices likely to drop out (sleep, run flat, leave the Wi-Fi) or struggle
+const LOW_MEMORY_PENALTY = 20;
+const LOW_MEMORY_MB = 2048;
+const ON_BATTERY_PENALTY = 20;
+const LOW_BATTERY_PENALTY = 40;
+const LOW_BATTERY_LEVEL = 0.2;
+const MOBILE_PENALTY = 15;
+const MOBILE_PLATFORMS = ["android", "ios"];
+
+/* Scoring */
+
+// Host score of a device; higher is better. Integer arithmetic only, so every
+// peer computes the same value. Devices that did not report score 0.
+export function hostScore(capabilities?: DeviceCapabilities): number {
+  if (!capabilities) return 0;
+
+  const memoryGb = Math.min(Math.floor(capabilities.memoryMb / 1024), MAX_MEMORY_GB);
+  const cores = Math.min(capabilities.cpuCores, MAX_CPU_CORES);
+  let score = memoryGb * MEMORY_POINTS_PER_GB + cores * CPU_POINTS_PER_CORE;
+
+  if (capabilities.memoryMb < LOW_MEMORY_MB) {
+    score -= LOW_MEMORY_PENALTY;
+  }
+
+  const { battery } = capabilities;
+  if (battery && !battery.charging) {
+    score -= ON_BATTERY_PENALTY;
+    if (battery.level < LOW_BATTERY_LEVEL) score -= LOW_BATTERY_PENALTY;
+  }
+  if (MOBILE_PLATFORMS.includes(capabilities.platform)) {
+    score -= MOBILE_PENALTY;
+  }
+  return score;
+}
+
+// Capability report from the network, or undefined if it is malformed.
+export function sanitizeCapabilities(raw: unknown): DeviceCapabilities | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const { memoryMb, cpuCores, platform, battery } = raw as Record<string, any>;
+
+  if (!Number.isInteger(memoryMb) || memoryMb < 0) return undefined;
+  if (!Number.isInteger(cpuCores) || cpuCores < 0) return undefined;
+  if (typeof platform !== "string") return undefined;
+
+  if (battery === null || battery === undefined) {
+    return { memoryMb, cpuCores, platform, battery: null };
+  }
+  if (typeof battery.level !== "number" || battery.level < 0 || battery.level > 1 || typeof battery.charging !== "boolean") {
+    return undefined;
+  }
+  return { memoryMb, cpuCores, platform, battery: { level: battery.level, charging: battery.charging } };
+}
+
+/* Election */
+
+// Candidates best first: highest host score, then earliest to join, then
+// hash(deviceId) and finally the deviceId itself. Members whose connection
+// dropped are only considered when nobody else is left, and spectators
+// only when no player is left.
+// Shared by RoomManager and PeerNode, so server and peers elect the same host.
+export function rankHostCandidates<T extends HostCandidate>(members: T[]): T[] {
+  const connected = members.filter(m => m.disconnectedAt === undefined);
+  const present = connected.length > 0 ? connected : members;
+  const players = present.filter(m => m.role !== "spectator");
+  const candidates = players.length > 0 ? players : present;
+
+  return [...candidates].sort((a, b) =>
+    hostScore(b.capabilities) - hostScore(a.capabilities)
+    || a.joinOrder - b.joinOrder
+    || hash(a.deviceId) - hash(b.deviceId)
+    || (a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0)
+  );
+}
+
+// Host the members elect after `departedDeviceId` (the current host) is gone; null if nobody is left.
+export function electHost<T extends HostCandidate>(members: T[], departedDeviceId?: string): T | null {
+  const survivors = members.filter(m => m.deviceId !== departedDeviceId);
+  return survivors.length > 0 ? rankHostCandidates(survivors)[0] : null;
+}
+
+function hash(input: string): number {
+  let hash = 0;
+  for (let i = 0; i < input.length; i++) {
+    hash = (hash << 5) - hash + input.charCodeAt(i);
+    hash |= 0;
+  }
+  return Math.abs(hash);
+}
@@ -0,0 +1,144 @@
+import { MessageType } from "../network/MessageTypes";
+import { NetworkMessage } from "../network/Protocol";
+import { Member, Room, Role } from "./RoomManager";
+
+/* Types & Interfaces */
+
+// Actions a role may be allowed to take in a room.
+// - kick: remove a member ranked below you
+// - startGame: open sessions and start your own
+// - changeSettings: change the room settings, lock the room
+// - chat: send chat messages
+// - moderate: promote spectators, start or arrange other members' sessions, quick start
+// - assignRoles: make members leaders (and back)
+// - transferHost: hand the host role (and the room's server) to another player
+// - closeRoom: close the room for everyone
+export type Permission =
+  | "kick"
+  | "startGame"
+  | "changeSettings"
+  | "chat"
+  | "moderate"
+  | "assignRoles"
+  | "transferHost"
+  | "closeRoom";
+
+export type PermissionMatrix = Record<Role, Permission[]>;
+
+// What a message needs before it may be handled.
+export interface PermissionCheck {
+  permissions: Permission[];
+  // Member acted upon; must be someone else ranking below the sender. Messages
+  // a member may also aim at itself (LOBBY_ASSIGN) leave it out.
+  targetDeviceId?: string;
+}
+
+/* Constants */
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  host: ["kick", "startGame", "changeSettings", "chat", "moderate", "assignRoles", "transferHost", "closeRoom"],
+  leader: ["kick", "startGame", "changeSettings", "chat", "moderate"],
+  member: ["startGame", "chat"],
+  spectator: ["chat"],
+};
+
+const ROLE_RANK: Record<Role, number> = {
+  host: 3,
+  leader: 2,
+  member: 1,
+  spectator: 0,
+};
+
+/* Permission Checks */
+
+// Default matrix with the rows of `overrides` replaced.
+export function resolvePermissions(overrides: Partial<PermissionMatrix> = {}): PermissionMatrix {
+  const matrix = { ...DEFAULT_PERMISSIONS, ...overrides };
+  return {
+    host: [...matrix.host],
+    leader: [...matrix.leader],
+    member: [...matrix.member],
+    spectator: [...matrix.spectator],
+  };
+}
+
+export function hasPermission(matrix: PermissionMatrix, role: Role, permission: Permission): boolean {
+  return (matrix[role] || []).includes(permission);
+}
+
+// Whether `actor` may act on a member with role `target` (kick, re-role, ...).
+export function outranks(actor: Role, target: Role): boolean {
+  return ROLE_RANK[actor] > ROLE_RANK[target];
+}
+
+// Permissions `deviceId` needs to send `message` in `room`. Messages not listed need none.
+export function requiredPermissions(room: Room, deviceId: string, message: NetworkMessage): PermissionCheck {
+  switch (message.type) {
+    case MessageType.CHAT:
+      return { permissions: ["chat"] };
+
+    case MessageType.UPDATE_ROOM_SETTINGS:
+    case MessageType.LOCK_ROOM:
+      return { permissions: ["changeSettings"] };
+
+    case MessageType.CLOSE_ROOM:
+      return { permissions: ["closeRoom"] };
+
+    case MessageType.KICK:
+      return { permissions: ["kick"], targetDeviceId: message.payload.targetDeviceId };
+
+    case MessageType.UNBAN:
+      return { permissions: ["kick"] };
+
+    case MessageType.PROMOTE_SPECTATOR:
+      return { permissions: ["moderate"], targetDeviceId: message.payload.targetDeviceId };
+
+    case MessageType.SET_ROLE:
+      return { permissions: ["assignRoles"], targetDeviceId: message.payload.targetDeviceId };
+
+    case MessageType.TRANSFER_HOST:
+      return { permissions: ["transferHost"], targetDeviceId: message.payload.targetDeviceId };
+
+    case MessageType.SESSION_CREATE:
+      return { permissions: ["startGame"] };
+
+    case MessageType.GAME_START: {
+      const { sessionId } = message.payload;
+      const session = room.sessions.find(s => s.sessionId === sessionId);
+      if (sessionId && !session) return { permissions: [] }; // reported as SESSION_NOT_FOUND
+
+      // A quick start (no sessionId) seats everyone, so it counts as moderation too
+      return session?.ownerDeviceId === deviceId
+        ? { permissions: ["startGame"] }
+        : { permissions: ["startGame", "moderate"] };
+    }
+
+    case MessageType.LOBBY_ASSIGN: {
+      const { sessionId, targetDeviceId } = message.payload;
+      const session = room.sessions.find(s => s.sessionId === sessionId);
+      const arrangesOther = !!targetDeviceId && targetDeviceId !== deviceId && session?.ownerDeviceId !== deviceId;
+      return { permissions: arrangesOther ? ["moderate"] : [] };
+    }
+
+    default:
+      return { permissions: [] };
+  }
+}
+
+// Why `sender` may not send `message` in `room`, or null if it may.
+export function refusalReason(room: Room, sender: Member, message: NetworkMessage): string | null {
+  const check = requiredPermissions(room, sender.deviceId, message);
+
+  if (check.permissions.some(p => !hasPermission(room.permissions, sender.role, p))) {
+    return "PERMISSION_DENIED";
+  }
+  if (check.targetDeviceId === sender.deviceId) {
+    return "CANNOT_TARGET_SELF";
+  }
+  if (check.targetDeviceId) {
+    const target = room.members.find(m => m.deviceId === check.targetDeviceId);
+    if (!target) return "MEMBER_NOT_FOUND";
+    if (!outranks(sender.role, target.role)) return "INSUFFICIENT_RANK";
+  }
+  return null;
+}
@@ -11,13 +11,26 @@ export function applyRoomStateUpdate(
   const newSnapshot: SnapshotState = {
     room: {
       ...snapshot.room,
-      members: snapshot.room.members.map(m => ({ ...m }))
+      members: snapshot.room.members.map(m => ({ ...m })),
+      bans: (snapshot.room.bans || []).map(b => ({ ...b }))
     },
     chat: snapshot.chat.map(m => ({ ...m })),
     identity: {
       deviceIdToClientId: { ...snapshot.identity.deviceIdToClientId },
       deviceIdToName: { ...snapshot.identity.deviceIdToName }
-    }
+    },
+    sessions: snapshot.sessions.map(s => ({
+      ...s,
+      players: [...s.players],
+      spectators: [...s.spectators],
+      lobby: {
+        ready: [...s.lobby.ready],
+        seats: { ...s.lobby.seats },
+        teams: { ...s.lobby.teams }
+      },
+      lastInputSeq: { ...s.lastInputSeq },
+      turnTimer: s.turnTimer ? { ...s.turnTimer } : null
+    }))
   }
 
   switch (update.type) {
@@ -48,8 +61,11 @@ export function applyRoomStateUpdate(
       newSnapshot.room.hostDeviceId = update.newHostDeviceId
 
       newSnapshot.room.members.forEach(m => {
-        m.role =
-          m.deviceId === update.newHostDeviceId ? "host" : "member"
+        if (m.deviceId === update.newHostDeviceId) {
+          m.role = "host"
+        } else if (m.role === "host") {
+          m.role = "member"
+        }
       })
       break
 
@@ -61,6 +77,9 @@ export function applyRoomStateUpdate(
 
       if (member) {
         member.name = update.newName
+        if (update.avatar !== undefined) {
+          member.avatar = update.avatar || undefined
+        }
         newSnapshot.identity.deviceIdToName[update.deviceId] =
           update.newName
       }
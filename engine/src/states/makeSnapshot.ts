@@ -1,40 +1,18 @@
 import { SnapshotState } from "./types"
 import { RoomManager } from "../server/RoomManager"
+import { SnapshotViewer } from "../game/sessionSnapshot"
 
+// Snapshot of a room as `viewer` may see it; built by RoomManager.makeSnapshot.
 export function makeSnapshot(
   roomManager: RoomManager,
-  roomId: string
+  roomId: string,
+  viewer?: SnapshotViewer
 ): SnapshotState {
 
-  const room = roomManager.getRoom(roomId)
+  const snapshot = roomManager.makeSnapshot(roomId, viewer)
 
-  if (!room) {
+  if (!snapshot) {
     throw new Error("ROOM_NOT_FOUND")
   }
-
-  const deviceIdToClientId: Record<string, string> = {}
-  const deviceIdToName: Record<string, string> = {}
-
-  for (const member of room.members) {
-    deviceIdToClientId[member.deviceId] = member.clientId
-    deviceIdToName[member.deviceId] = member.name
-  }
-
-  return {
-    room: {
-      roomId: room.roomId,
-      joinCode: room.joinCode,
-      hostDeviceId: room.hostDeviceId,
-      members: room.members.map(member => ({
-        ...member
-      }))
-    },
-    chat: room.chat.map(message => ({
-      ...message
-    })),
-    identity: {
-      deviceIdToClientId,
-      deviceIdToName
-    }
-  }
+  return snapshot
 }
@@ -1,26 +1,68 @@
-import { SnapshotState } from "./types"
-import { RoomManager, Room } from "../server/RoomManager"
+import { GameSessionSnapshot, SnapshotState } from "./types"
+import { RoomManager, Room, isPasswordLost, restoreSettings } from "../server/RoomManager"
+import { GameRegistry, defaultGameRegistry } from "../game/GameRegistry"
+import { restoreGameSession } from "../game/sessionSnapshot"
+import { resolvePermissions } from "../server/permissions"
+import { GameSession } from "../game/types"
+import { logger } from "../utils/logger"
 
+// Returns the hidden-information sessions still sealed: they can only be
+// restored once a member hands in the key (see restoreGameSession).
 export function restoreFromSnapshot(
   snapshot: SnapshotState,
-  roomManager: RoomManager
-): void {
+  roomManager: RoomManager,
+  gameRegistry: GameRegistry = defaultGameRegistry
+): GameSessionSnapshot[] {
+
+  // Resume every session this host can run the module of.
+  // A session we cannot restore must not prevent the room itself from coming back.
+  const sessions: GameSession[] = []
+  const sealed: GameSessionSnapshot[] = []
+
+  for (const sessionSnapshot of snapshot.sessions) {
+    try {
+      sessions.push(restoreGameSession(sessionSnapshot, gameRegistry))
+    } catch (err: any) {
+      if (err.message === "HIDDEN_STATE_SEALED") {
+        sealed.push(sessionSnapshot)
+      } else {
+        logger.warn(`[Restore] dropping session ${sessionSnapshot.sessionId}: ${err.message}`)
+      }
+    }
+  }
 
   // Rebuild the room exactly from snapshot
   const restoredRoom: Room = {
     roomId: snapshot.room.roomId,
     joinCode: snapshot.room.joinCode,
     hostDeviceId: snapshot.room.hostDeviceId,
+    settings: restoreSettings(snapshot.room.settings, snapshot.room.roomId),
 
     members: snapshot.room.members.map(member => ({
       ...member
     })),
 
+    bans: (snapshot.room.bans || []).map(ban => ({
+      ...ban
+    })),
+
     chat: snapshot.chat.map(message => ({
       ...message
-    }))
+    })),
+
+    sessions,
+
+    // Snapshots from before permissions were replicated fall back to the defaults
+    permissions: resolvePermissions(snapshot.room.permissions),
+
+    // Without its password hash the room stays closed to new joins instead
+    locked: snapshot.room.locked === true || isPasswordLost(snapshot.room.settings),
+
+    // The idle clock starts over on the new host
+    lastActivityAt: Date.now()
   }
 
   // Insert restored room into RoomManager
   roomManager.restoreRoomFromSnapshot(restoredRoom)
+  return sealed
 }
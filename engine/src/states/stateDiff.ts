@@ -0,0 +1,144 @@
+// JSON-patch-like diffs between two JSON-serializable game states.
+// Paths are JSON pointers ("/board/3/owner"), like RFC 6902.
+
+export type PatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+
+type JsonObject = Record<string, unknown>
+
+// Segments that would reach Object.prototype instead of the state itself
+const FORBIDDEN_KEYS = new Set(["__proto__", "constructor", "prototype"])
+
+export function diffState(previous: unknown, next: unknown): PatchOperation[] {
+  const ops: PatchOperation[] = []
+  diffValue(previous, next, "", ops)
+  return ops
+}
+
+// Returns a new state; `state` itself is not modified.
+export function applyPatch(state: unknown, ops: PatchOperation[]): unknown {
+  let result = clone(state)
+
+  for (const operation of ops) {
+    const keys = parsePointer(operation.path)
+
+    if (keys.length === 0) {
+      if (operation.op === "remove") throw new Error("INVALID_PATCH")
+      result = clone(operation.value)
+      continue
+    }
+
+    const parent = resolveParent(result, keys)
+    const key = keys[keys.length - 1]
+
+    if (Array.isArray(parent)) {
+      const index = key === "-" ? parent.length : Number(key)
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new Error("INVALID_PATCH")
+      }
+
+      if (operation.op === "add") {
+        parent.splice(index, 0, clone(operation.value))
+      } else if (operation.op === "replace") {
+        parent[index] = clone(operation.value)
+      } else {
+        parent.splice(index, 1)
+      }
+    } else {
+      if (operation.op === "remove") {
+        delete parent[key]
+      } else {
+        parent[key] = clone(operation.value)
+      }
+    }
+  }
+
+  return result
+}
+
+/* Helpers */
+
+function diffValue(a: unknown, b: unknown, path: string, ops: PatchOperation[]): void {
+  if (a === b) return
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const common = Math.min(a.length, b.length)
+
+    for (let i = 0; i < common; i++) {
+      diffValue(a[i], b[i], `${path}/${i}`, ops)
+    }
+    for (let i = common; i < b.length; i++) {
+      ops.push({ op: "add", path: `${path}/${i}`, value: b[i] })
+    }
+    // Remove from the end so earlier indexes stay valid
+    for (let i = a.length - 1; i >= common; i--) {
+      ops.push({ op: "remove", path: `${path}/${i}` })
+    }
+    return
+  }
+
+  // Objects with prototype-named keys are replaced whole; applyPatch refuses such paths
+  if (isObject(a) && isObject(b) && !hasForbiddenKey(a) && !hasForbiddenKey(b)) {
+    for (const key of Object.keys(a)) {
+      const childPath = `${path}/${escapeKey(key)}`
+      if (!hasOwn(b, key)) {
+        ops.push({ op: "remove", path: childPath })
+      } else {
+        diffValue(a[key], b[key], childPath, ops)
+      }
+    }
+    for (const key of Object.keys(b)) {
+      if (!hasOwn(a, key)) {
+        ops.push({ op: "add", path: `${path}/${escapeKey(key)}`, value: b[key] })
+      }
+    }
+    return
+  }
+
+  ops.push({ op: "replace", path, value: b })
+}
+
+// Object or array holding the last key of `keys`. Throws INVALID_PATCH for
+// paths through missing values or prototype keys.
+function resolveParent(root: unknown, keys: string[]): JsonObject | unknown[] {
+  if (keys.some(key => FORBIDDEN_KEYS.has(key))) throw new Error("INVALID_PATCH")
+
+  let node: unknown = root
+  for (let i = 0; i < keys.length - 1; i++) {
+    if (node === null || typeof node !== "object") throw new Error("INVALID_PATCH")
+    node = hasOwn(node, keys[i]) ? (node as JsonObject)[keys[i]] : undefined
+  }
+  if (node === null || typeof node !== "object") throw new Error("INVALID_PATCH")
+  return node as JsonObject | unknown[]
+}
+
+function parsePointer(path: string): string[] {
+  if (path === "") return []
+  return path.slice(1).split("/").map(unescapeKey)
+}
+
+function escapeKey(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1")
+}
+
+function unescapeKey(key: string): string {
+  return key.replace(/~1/g, "/").replace(/~0/g, "~")
+}
+
+function hasOwn(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key)
+}
+
+function hasForbiddenKey(value: JsonObject): boolean {
+  return Object.keys(value).some(key => FORBIDDEN_KEYS.has(key))
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
@@ -1,9 +1,29 @@
+import { Permission } from "../server/permissions"
+import { DeviceCapabilities } from "../network/payloads"
+import { PasswordHash } from "../utils/id"
+
 export type Member = {
   deviceId: string
   clientId: string
   name: string
   joinOrder: number
-  role: "host" | "member"
+  role: "host" | "leader" | "member" | "spectator"
+  avatar?: {
+    color?: string
+    emoji?: string
+  }
+  capabilities?: DeviceCapabilities   // scores the member for host election
+  disconnectedAt?: number             // connection lost; removed if not back within the grace period
+  resumeTokenHash?: string            // hashToken of the member's resume token, checked by any host
+}
+
+export type Ban = {
+  deviceId: string
+  name: string
+  reason: string
+  bannedBy: string
+  bannedAt: number
+  expiresAt: number | null   // epoch ms on the host clock, null until unbanned
 }
 
 export type ChatMessage = {
@@ -13,16 +33,81 @@ export type ChatMessage = {
   timestamp: number
 }
 
+export type GameSessionSnapshot = {
+  sessionId: string
+  ownerDeviceId: string
+  gameId: string | null
+  moduleId: string
+  moduleVersion: number
+  type: "TURN_BASED" | "REALTIME" | "HYBRID"
+  players: string[]
+  spectators: string[]
+  lobby: {
+    ready: string[]
+    seats: Record<string, number>
+    teams: Record<string, number>
+  }
+  state: unknown       // module.getSnapshot(state), or the viewer's getPlayerView (null while waiting)
+  sequence: number     // number of actions applied so far
+  tick: number         // simulation ticks stepped (real-time games)
+  seed: number         // 0 unless the viewer may see the full state
+  rngCursor: number    // position in the seeded random sequence, so a new host continues it
+  lastInputSeq: Record<string, number>
+  status: "waiting" | "running" | "finished"
+  startedAt: number | null   // epoch ms on the host clock, kept so durations survive migration
+  // Hidden-information games only: `state` is the viewer's view, and the full
+  // state goes to the member next in line to host so it can resume the game,
+  // sealed with a key only the other members get (see HostKey)
+  partial?: boolean
+  hostOnly?: SealedHostState
+  turnTimer: {
+    playerId: string
+    sequence: number
+    deadline: number   // epoch ms, re-armed by the new host after migration
+  } | null
+}
+
+// Key of one snapshot round. The full state of hidden-information games is
+// sealed with it for the member next in line to host, and every other member
+// gets the key instead. The successor can only open the state once it is host
+// and the others hand the key in as they reconnect (HELLO).
+export type HostKey = {
+  keyId: string
+  key: string          // base64, AES-256-GCM
+}
+
+// `{ state, seed }` of a hidden-information session, encrypted with a HostKey
+export type SealedHostState = {
+  keyId: string
+  iv: string           // base64
+  tag: string          // base64
+  data: string         // base64
+}
+
+export type RoomSettingsSnapshot = {
+  name: string
+  maxPlayers: number | null
+  isPrivate: boolean
+  hasPassword: boolean
+  passwordHash?: PasswordHash  // sent to every member, as any of them may have to enforce it
+}
+
 export type SnapshotState = {
   room: {
     roomId: string
     joinCode: string
     hostDeviceId: string
     members: Member[]
+    bans?: Ban[]       // kicked devices that may not rejoin
+    permissions?: Record<Member["role"], Permission[]>   // room's permission matrix
+    settings?: RoomSettingsSnapshot
+    locked?: boolean   // no new joins
   }
   chat: ChatMessage[]
   identity: {
     deviceIdToClientId: Record<string, string>
     deviceIdToName: Record<string, string>
   }
+  sessions: GameSessionSnapshot[]
+  hostKey?: HostKey    // members other than the successor, while a hidden-information game runs
 }
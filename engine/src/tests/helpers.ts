@@ -0,0 +1,38 @@
+// Shared by the scenario tests that run real servers and peers.
+
+// Polls until `check` returns a value (or true), failing after `timeoutMs`
+export function waitFor<T>(label: string, check: () => T | null | undefined | false, timeoutMs = 15000): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const startedAt = Date.now();
+        const timer = setInterval(() => {
+            const result = check();
+            if (result) {
+                clearInterval(timer);
+                resolve(result);
+            } else if (Date.now() - startedAt > timeoutMs) {
+                clearInterval(timer);
+                reject(new Error(`Timed out waiting for: ${label}`));
+            }
+        }, 50);
+    });
+}
+
+// Runs a scenario and exits the process with its outcome. Servers and sockets
+// left open by a failure cannot keep the test hanging past `timeoutMs`.
+export function runScenario(name: string, scenario: () => Promise<void>, timeoutMs: number): void {
+    const watchdog = setTimeout(() => {
+        console.error(`${name} test FAILED: scenario timed out`);
+        process.exit(1);
+    }, timeoutMs);
+
+    scenario()
+        .then(() => {
+            clearTimeout(watchdog);
+            console.log(`${name} test passed!`);
+            process.exit(0);
+        })
+        .catch((err) => {
+            console.error(`${name} test FAILED:`, err);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,79 @@
+// Room directory on a multi-room server: LIST_ROOMS answers with the public
+// rooms only, and subscribers get the list again whenever a room changes.
+//
+// Run with: npm run test:directory
+
+import assert from "assert";
+import { runScenario, waitFor } from "./helpers";
+import { LanForgeServer } from "../server/Server";
+import { PeerNode } from "../peer/PeerNode";
+import { GameRegistry } from "../game/GameRegistry";
+import { TicTacToe } from "../games/TicTacToe";
+
+const HOST_PORT = 18500;
+const SCENARIO_TIMEOUT_MS = 30000;
+
+const registry = new GameRegistry();
+registry.register(new TicTacToe());
+
+function createPeer(deviceId: string, name: string, hostPort: number): PeerNode {
+    return new PeerNode({
+        deviceId,
+        clientName: name,
+        serverUrl: `ws://localhost:${HOST_PORT}`,
+        gameRegistry: registry,
+        hostPort,
+    });
+}
+
+async function run() {
+    const server = new LanForgeServer(registry, { matchDirectory: null });
+    await server.start(HOST_PORT);
+
+    const host = createPeer("device-host", "Host", HOST_PORT + 1);
+    const alice = createPeer("device-alice", "Alice", HOST_PORT + 2);
+    const bob = createPeer("device-bob", "Bob", HOST_PORT + 3);
+    const watcher = createPeer("device-watcher", "Watcher", HOST_PORT + 4);
+    const peers = [host, alice, bob, watcher];
+    for (const peer of peers) await peer.start();
+
+    /* One public and one private room */
+    host.createRoom("Open Table", { maxPlayers: 4 });
+    const joinCode = await waitFor("open room created", () => host.getRoomSnapshot()?.room.joinCode);
+    alice.createRoom("Secret Table", { isPrivate: true, password: "hunter2" });
+    await waitFor("private room created", () => alice.getRoomSnapshot());
+
+    watcher.listRooms(true);
+    const [listed] = await waitFor("directory received", () => watcher.getRoomDirectory().length > 0 && watcher.getRoomDirectory());
+    assert.deepStrictEqual(watcher.getRoomDirectory().map(r => r.name), ["Open Table"], "private rooms are left out");
+    assert.strictEqual(listed.joinCode, joinCode);
+    assert.strictEqual(listed.hostName, "Host");
+    assert.deepStrictEqual(
+        [listed.members, listed.players, listed.maxPlayers, listed.hasPassword, listed.locked, listed.games],
+        [1, 1, 4, false, false, []]
+    );
+
+    /* Subscribers hear about joins, locks and closes without asking again */
+    bob.joinRoom(joinCode, true);
+    await waitFor("join pushed", () => {
+        const [room] = watcher.getRoomDirectory();
+        return room?.members === 2 && room.players === 1;
+    });
+
+    host.lockRoom();
+    await waitFor("lock pushed", () => watcher.getRoomDirectory()[0]?.locked === true);
+
+    // Making the room private takes it out of the directory, like closing it
+    host.updateRoomSettings({ isPrivate: true });
+    await waitFor("room hidden", () => watcher.getRoomDirectory().length === 0);
+    host.updateRoomSettings({ isPrivate: false });
+    await waitFor("room listed again", () => watcher.getRoomDirectory().length === 1);
+
+    host.closeRoom("Done for today");
+    await waitFor("close pushed", () => watcher.getRoomDirectory().length === 0);
+
+    for (const peer of peers) peer.stop();
+    server.stop();
+}
+
+runScenario("Directory", run, SCENARIO_TIMEOUT_MS);
@@ -0,0 +1,100 @@
+// Host election by capability score: every peer must rank the members the same
+// way whatever order it got them in, prefer capable and connected players, and
+// fall back on join order only between equals.
+//
+// Run with: npm run test:election
+
+import assert from "assert";
+import { electHost, hostScore, HostCandidate, rankHostCandidates, sanitizeCapabilities } from "../server/hostElection";
+import { RoomManager } from "../server/RoomManager";
+import { DeviceCapabilities } from "../network/payloads";
+
+const LAPTOP: DeviceCapabilities = { memoryMb: 16384, cpuCores: 8, platform: "linux", battery: { level: 0.9, charging: true } };
+const PHONE: DeviceCapabilities = { memoryMb: 4096, cpuCores: 8, platform: "android", battery: { level: 0.9, charging: false } };
+
+function candidate(deviceId: string, joinOrder: number, extra: Partial<HostCandidate> = {}): HostCandidate {
+    return { deviceId, joinOrder, role: "member", ...extra };
+}
+
+function testScore() {
+    assert.strictEqual(hostScore(undefined), 0, "devices that did not report score 0");
+    assert.strictEqual(hostScore(LAPTOP), 16 * 4 + 8 * 3);
+
+    // RAM and cores are capped, so a workstation does not win on size alone
+    assert.strictEqual(hostScore({ ...LAPTOP, memoryMb: 65536, cpuCores: 64 }), 16 * 4 + 16 * 3);
+
+    // Unplugged, low on battery and mobile devices are penalized
+    const unplugged = { ...LAPTOP, battery: { level: 0.5, charging: false } };
+    const flat = { ...LAPTOP, battery: { level: 0.1, charging: false } };
+    assert.ok(hostScore(unplugged) < hostScore(LAPTOP));
+    assert.ok(hostScore(flat) < hostScore(unplugged));
+    assert.ok(hostScore({ ...LAPTOP, platform: "ios" }) < hostScore(LAPTOP));
+    assert.ok(hostScore(PHONE) < hostScore(LAPTOP));
+}
+
+function testSanitize() {
+    assert.deepStrictEqual(sanitizeCapabilities(LAPTOP), LAPTOP);
+    assert.deepStrictEqual(sanitizeCapabilities({ ...LAPTOP, battery: undefined, extra: "x" }), { ...LAPTOP, battery: null });
+    for (const raw of [null, "fast", { ...LAPTOP, memoryMb: -1 }, { ...LAPTOP, cpuCores: 2.5 }, { ...LAPTOP, platform: 7 }, { ...LAPTOP, battery: { level: 2, charging: true } }]) {
+        assert.strictEqual(sanitizeCapabilities(raw), undefined, `refuses ${JSON.stringify(raw)}`);
+    }
+}
+
+function testRanking() {
+    const members = [
+        candidate("device-host", 0, { role: "host", capabilities: LAPTOP }),
+        candidate("device-phone", 1, { capabilities: PHONE }),
+        candidate("device-silent", 2),
+        candidate("device-laptop", 3, { capabilities: LAPTOP }),
+        candidate("device-watcher", 4, { role: "spectator", capabilities: { ...LAPTOP, cpuCores: 16 } }),
+    ];
+
+    // The late laptop beats the earlier phone; the spectator only comes in when no player is left
+    assert.strictEqual(electHost(members, "device-host")!.deviceId, "device-laptop");
+    assert.deepStrictEqual(
+        rankHostCandidates(members.filter(m => m.deviceId !== "device-host")).map(m => m.deviceId),
+        ["device-laptop", "device-phone", "device-silent"]
+    );
+    assert.strictEqual(electHost(members.filter(m => m.role === "spectator")), members[4]);
+
+    // Every peer gets the same answer, whatever order its snapshot lists the members in
+    const reversed = [...members].reverse();
+    assert.strictEqual(electHost(reversed, "device-host")!.deviceId, "device-laptop");
+
+    // A member whose connection dropped is passed over while someone else is connected
+    const dropped = members.map(m => m.deviceId === "device-laptop" ? { ...m, disconnectedAt: 1 } : m);
+    assert.strictEqual(electHost(dropped, "device-host")!.deviceId, "device-phone");
+
+    // Between equal scores the earlier joiner wins
+    const twins = [candidate("device-b", 5, { capabilities: LAPTOP }), candidate("device-a", 6, { capabilities: LAPTOP })];
+    assert.strictEqual(electHost(twins)!.deviceId, "device-b");
+    assert.strictEqual(electHost([]), null);
+}
+
+// The server's next candidate is the host the peers elect from the same snapshot
+function testServerAgreesWithPeers() {
+    const rooms = new RoomManager();
+    const room = rooms.createRoom("room-election", "device-host", "client-host", "Host");
+    rooms.joinRoomByCode(room.joinCode, "device-phone", "client-phone", "Phone");
+    rooms.joinRoomByCode(room.joinCode, "device-laptop", "client-laptop", "Laptop");
+    rooms.setCapabilities("device-phone", PHONE);
+    rooms.setCapabilities("device-laptop", LAPTOP);
+
+    const snapshot = rooms.makeSnapshot(room.roomId)!;
+    assert.strictEqual(rooms.nextHostCandidate(room.roomId), "device-laptop");
+    assert.strictEqual(electHost(snapshot.room.members, snapshot.room.hostDeviceId)!.deviceId, "device-laptop");
+
+    rooms.leaveRoom("device-host");
+    assert.strictEqual(room.hostDeviceId, "device-laptop");
+}
+
+try {
+    testScore();
+    testSanitize();
+    testRanking();
+    testServerAgreesWithPeers();
+    console.log("Election test passed!");
+} catch (err) {
+    console.error("Election test FAILED:", err);
+    process.exit(1);
+}
@@ -0,0 +1,87 @@
+// A planned handoff to a successor whose server cannot start (its port is
+// already taken) must not freeze the room until the handoff times out: the
+// successor reports the failure, and the old host carries on and can hand
+// the room to someone else.
+//
+// Run with: npm run test:handoff
+
+import assert from "assert";
+import net from "net";
+import { runScenario, waitFor } from "./helpers";
+import { LanForgeServer } from "../server/Server";
+import { PeerNode } from "../peer/PeerNode";
+import { GameRegistry } from "../game/GameRegistry";
+import { TicTacToe } from "../games/TicTacToe";
+
+const HOST_PORT = 18300;
+const SCENARIO_TIMEOUT_MS = 30000;
+// The old host's own deadline for a successor (HANDOFF_TIMEOUT_MS)
+const HANDOFF_TIMEOUT_MS = 10000;
+
+const registry = new GameRegistry();
+registry.register(new TicTacToe());
+
+function createPeer(deviceId: string, name: string, hostPort: number): PeerNode {
+    return new PeerNode({
+        deviceId,
+        clientName: name,
+        serverUrl: `ws://localhost:${HOST_PORT}`,
+        gameRegistry: registry,
+        hostPort,
+    });
+}
+
+function occupyPort(port: number): Promise<net.Server> {
+    return new Promise((resolve, reject) => {
+        const blocker = net.createServer();
+        blocker.once("error", reject);
+        blocker.listen(port, () => resolve(blocker));
+    });
+}
+
+async function run() {
+    const server = new LanForgeServer(registry, { matchDirectory: null });
+    await server.start(HOST_PORT);
+
+    const host = createPeer("device-host", "Host", HOST_PORT);
+    await host.start();
+    host.createRoom("Handoff Test");
+    const joinCode = await waitFor("room created", () => host.getRoomSnapshot()?.room.joinCode);
+
+    // Alice's server port is already in use by something else on her machine
+    const alice = createPeer("device-alice", "Alice", HOST_PORT + 1);
+    const bob = createPeer("device-bob", "Bob", HOST_PORT + 2);
+    const blocker = await occupyPort(HOST_PORT + 1);
+
+    await alice.start();
+    alice.joinRoom(joinCode);
+    await waitFor("alice joined", () => alice.getRoomSnapshot()?.room.members.length === 2);
+    await bob.start();
+    bob.joinRoom(joinCode);
+    await waitFor("bob joined", () => bob.getRoomSnapshot()?.room.members.length === 3);
+
+    /* The handoff to Alice fails, and the room is usable again right away */
+    const startedAt = Date.now();
+    host.transferHost("device-alice");
+    // Requests are refused while the handoff is in progress, so keep asking
+    await waitFor("room unfrozen", () => {
+        if (alice.getSessions().length > 0) return true;
+        alice.createSession("tictactoe");
+        return false;
+    });
+    assert.ok(Date.now() - startedAt < HANDOFF_TIMEOUT_MS, "the failure is reported, not waited out");
+    assert.strictEqual(alice.getRoomSnapshot()?.room.hostDeviceId, "device-host");
+
+    /* Someone else can still take the room over */
+    host.transferHost("device-bob");
+    await waitFor("bob took over", () => {
+        const snapshot = alice.getRoomSnapshot();
+        return snapshot?.room.hostDeviceId === "device-bob" && snapshot.room.members.length === 3;
+    });
+
+    for (const peer of [host, alice, bob]) peer.stop();
+    server.stop();
+    blocker.close();
+}
+
+runScenario("Handoff", run, SCENARIO_TIMEOUT_MS);
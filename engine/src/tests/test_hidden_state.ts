@@ -0,0 +1,126 @@
+// Hidden-information games and host migration: the member next in line to
+// host is usually seated in the game itself, so the full state it keeps for
+// migration must stay unreadable to it until the other members hand in the key.
+//
+// Run with: npm run test:hidden-state
+
+import assert from "assert";
+import { RoomManager } from "../server/RoomManager";
+import { GameSessionManager } from "../game/GameSessionManager";
+import { GameRegistry } from "../game/GameRegistry";
+import { GameAction, GameModule } from "../game/types";
+import { SeededRng } from "../game/SeededRng";
+import { restoreGameSession } from "../game/sessionSnapshot";
+import { createHostKey } from "../game/hostKey";
+import { restoreFromSnapshot } from "../states/restoreFromSnapshot";
+
+type HandsState = {
+    hands: Record<string, string[]>;
+    deck: string[];
+};
+
+// Deals three cards to every player; each player may only see their own hand.
+class SecretHands implements GameModule<HandsState> {
+    readonly id = "secret-hands";
+    readonly version = 1;
+    readonly type = "TURN_BASED";
+    readonly minPlayers = 2;
+
+    getInitialState(players: string[], _teams: Record<string, number> | undefined, rng: SeededRng): HandsState {
+        const deck = rng.shuffle(Array.from({ length: 20 }, (_, i) => `card-${i}`));
+        const hands: Record<string, string[]> = {};
+        for (const player of players) hands[player] = deck.splice(0, 3);
+        return { hands, deck };
+    }
+
+    validateAction(_state: HandsState, _action: GameAction): string | null {
+        return "UNKNOWN_ACTION";
+    }
+
+    applyAction(state: HandsState): HandsState {
+        return state;
+    }
+
+    isGameOver(): boolean {
+        return false;
+    }
+
+    getSnapshot(state: HandsState): unknown {
+        return JSON.parse(JSON.stringify(state));
+    }
+
+    restoreFromSnapshot(snapshot: unknown): HandsState {
+        return snapshot as HandsState;
+    }
+
+    getPlayerView(state: HandsState, viewerId: string | null): unknown {
+        const handSizes: Record<string, number> = {};
+        for (const [player, hand] of Object.entries(state.hands)) handSizes[player] = hand.length;
+        return { hand: viewerId ? state.hands[viewerId] : [], handSizes };
+    }
+}
+
+function run() {
+    const registry = new GameRegistry();
+    registry.register(new SecretHands());
+    const rooms = new RoomManager(registry);
+    const sessions = new GameSessionManager(registry);
+
+    /* A host and two seated players: Alice joined first, so she is next in line to host */
+    const room = rooms.createRoom("room-hidden", "device-host", "client-host", "Host");
+    rooms.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice");
+    rooms.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob");
+
+    const session = sessions.createSession(room, "device-alice", "secret-hands", ["device-alice", "device-bob"]);
+    sessions.setReady(room, session.sessionId, "device-alice", true);
+    sessions.setReady(room, session.sessionId, "device-bob", true);
+    sessions.startGame(room, session.sessionId);
+    const live = session.state as HandsState;
+
+    const successor = rooms.nextHostCandidate(room.roomId);
+    assert.strictEqual(successor, "device-alice");
+
+    /* One snapshot round, as broadcastRoomState makes it */
+    const hostKey = createHostKey("snap-test");
+    const aliceSnapshot = rooms.makeSnapshot(room.roomId, { deviceId: "device-alice", isSuccessor: true, hostKey })!;
+    const bobSnapshot = rooms.makeSnapshot(room.roomId, { deviceId: "device-bob", isSuccessor: false, hostKey })!;
+
+    // The seated successor sees its own hand, and nothing of Bob's hand, the deck or the seed
+    const aliceJson = JSON.stringify(aliceSnapshot);
+    for (const card of live.hands["device-alice"]) {
+        assert.ok(aliceJson.includes(`"${card}"`), `successor sees its own ${card}`);
+    }
+    for (const card of [...live.hands["device-bob"], ...live.deck]) {
+        assert.ok(!aliceJson.includes(`"${card}"`), `successor cannot read ${card}`);
+    }
+    const [aliceSession] = aliceSnapshot.sessions;
+    assert.strictEqual(aliceSession.seed, 0);
+    assert.ok(aliceSession.hostOnly, "successor keeps the sealed full state");
+    assert.strictEqual(aliceSnapshot.hostKey, undefined, "successor does not get the key");
+
+    // Everyone else gets the key, but not the sealed state
+    assert.deepStrictEqual(bobSnapshot.hostKey, hostKey);
+    assert.strictEqual(bobSnapshot.sessions[0].hostOnly, undefined);
+
+    /* Alice on her own cannot open it, neither with a key of her own making */
+    assert.throws(() => restoreGameSession(aliceSession, registry), /HIDDEN_STATE_SEALED/);
+    const forged = { ...createHostKey("snap-test") };
+    assert.throws(() => restoreGameSession(aliceSession, registry, forged), /HIDDEN_STATE_SEALED/);
+
+    // Promoted, her server keeps the game aside until a member hands in the key...
+    const sealed = restoreFromSnapshot(aliceSnapshot, new RoomManager(registry), registry);
+    assert.deepStrictEqual(sealed.map(s => s.sessionId), [session.sessionId]);
+
+    // ...which then restores the exact game, seed included
+    const restored = restoreGameSession(sealed[0], registry, bobSnapshot.hostKey);
+    assert.deepStrictEqual(restored.state, live);
+    assert.strictEqual(restored.seed, session.seed);
+}
+
+try {
+    run();
+    console.log("Hidden state test passed!");
+} catch (err) {
+    console.error("Hidden state test FAILED:", err);
+    process.exit(1);
+}
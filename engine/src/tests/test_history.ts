@@ -0,0 +1,79 @@
+// Match history: queries take whatever limit a client sends, and a history file
+// that got corrupted must not keep the server from starting.
+//
+// Run with: npm run test:history
+
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MatchHistory } from "../game/MatchHistory";
+import { MAX_HISTORY_LIMIT, MatchResult } from "../network/payloads";
+import { decodeMessage } from "../network/Encoder";
+import { MessageType } from "../network/MessageTypes";
+
+function match(index: number, winner: string | null): MatchResult {
+    return {
+        gameId: `game-${index}`,
+        sessionId: "session-1",
+        roomId: "room-1",
+        moduleId: "tictactoe",
+        players: [{ deviceId: "device-alice", name: "Alice" }, { deviceId: "device-bob", name: "Bob" }],
+        scores: {},
+        winners: winner ? [winner] : [],
+        startedAt: index * 1000,
+        endedAt: index * 1000 + 500,
+        durationMs: 500,
+    };
+}
+
+function testLimits() {
+    const history = new MatchHistory();
+    history.merge([match(1, "device-alice"), match(2, "device-bob"), match(3, null)]);
+
+    assert.deepStrictEqual(history.query({ limit: 2 }).map(r => r.gameId), ["game-3", "game-2"]);
+    assert.strictEqual(history.query({ limit: -5 }).length, 0);
+    assert.strictEqual(history.query({ limit: 1.7 }).length, 1);
+    assert.strictEqual(history.query({ limit: NaN }).length, 0);
+    assert.strictEqual(history.query({ limit: Infinity }).length, 3);
+
+    const [alice] = history.getLeaderboard("tictactoe").filter(e => e.deviceId === "device-alice");
+    assert.deepStrictEqual([alice.played, alice.wins, alice.draws, alice.losses], [3, 1, 1, 1]);
+
+    // The wire only accepts whole, capped limits
+    const query = (limit: unknown) => decodeMessage(JSON.stringify({
+        type: MessageType.MATCH_HISTORY, requestId: "req-1", clientId: "client-1", payload: { limit },
+    }));
+    assert.ok(query(20).ok);
+    for (const limit of [-1, 2.5, MAX_HISTORY_LIMIT + 1, "10"]) {
+        const result = query(limit);
+        assert.ok(!result.ok && result.field === "limit", `refuses limit ${JSON.stringify(limit)}`);
+    }
+}
+
+function testCorruptFile() {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "lanforge-history-"));
+    const filePath = path.join(directory, "history.json");
+    try {
+        for (const contents of ["{ not json", JSON.stringify({ version: 99, matches: [] })]) {
+            fs.writeFileSync(filePath, contents);
+            const history = new MatchHistory(filePath);
+            assert.strictEqual(history.query().length, 0);
+
+            // ...and it keeps working from there
+            history.add(match(1, "device-alice"));
+            assert.strictEqual(new MatchHistory(filePath).query().length, 1);
+        }
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+}
+
+try {
+    testLimits();
+    testCorruptFile();
+    console.log("History test passed!");
+} catch (err) {
+    console.error("History test FAILED:", err);
+    process.exit(1);
+}
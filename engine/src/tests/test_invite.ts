@@ -0,0 +1,57 @@
+// lanforge:// invites: `join <uri>` trusts parseInviteUri completely, so every
+// invite it accepts must round-trip and everything else must be refused.
+//
+// Run with: npm run test:invite
+
+import assert from "assert";
+import { createInviteUri, parseInviteUri, inviteServerUrl, isInviteUri, Invite } from "../discovery/invite";
+
+function roundTrip(invite: Invite) {
+    const uri = createInviteUri(invite);
+    assert.ok(isInviteUri(uri), `${uri} is recognized as an invite`);
+    assert.deepStrictEqual(parseInviteUri(uri), invite, `${uri} parses back`);
+}
+
+function run() {
+    /* Round trips */
+    roundTrip({ host: "192.168.1.20", port: 8080, roomId: "room-1", joinCode: "ABC123" });
+    roundTrip({ host: "game-box.local", port: 9000, roomId: "room-2", joinCode: "XYZ789", passwordHint: "ask Sam & co / 2nd floor" });
+
+    // IPv6 hosts are bracketed in the URI, and bare in the invite
+    const ipv6: Invite = { host: "fe80::1", port: 8080, roomId: "room-3", joinCode: "V6CODE" };
+    assert.ok(createInviteUri(ipv6).startsWith("lanforge://[fe80::1]:8080/"));
+    roundTrip(ipv6);
+    assert.strictEqual(inviteServerUrl(ipv6), "ws://[fe80::1]:8080");
+    assert.strictEqual(inviteServerUrl(parseInviteUri("lanforge://10.0.0.5:8080/ABC123?room=r")), "ws://10.0.0.5:8080");
+
+    /* Lenient where it is harmless: join codes are case-insensitive, whitespace is trimmed */
+    assert.strictEqual(parseInviteUri("lanforge://10.0.0.5:8080/abc123?room=r").joinCode, "ABC123");
+    assert.strictEqual(parseInviteUri("  lanforge://10.0.0.5:8080/ABC123?room=r\n").host, "10.0.0.5");
+    assert.ok(isInviteUri("LANFORGE://10.0.0.5:8080/ABC123?room=r"));
+
+    /* Refused */
+    const invalid = [
+        "",
+        "not a uri",
+        "http://10.0.0.5:8080/ABC123?room=r",        // bad scheme
+        "lanforge:10.0.0.5:8080/ABC123?room=r",      // no authority
+        "lanforge://10.0.0.5/ABC123?room=r",         // missing port
+        "lanforge://10.0.0.5:0/ABC123?room=r",       // port out of range
+        "lanforge://10.0.0.5:8080/?room=r",          // missing join code
+        "lanforge://10.0.0.5:8080/ABC-123?room=r",   // join code with other characters
+        "lanforge://10.0.0.5:8080/ABC123",           // missing room
+        "lanforge://:8080/ABC123?room=r",            // missing host
+    ];
+    for (const uri of invalid) {
+        assert.throws(() => parseInviteUri(uri), /INVALID_INVITE/, `refuses ${JSON.stringify(uri)}`);
+    }
+    assert.ok(!isInviteUri("http://10.0.0.5:8080/ABC123?room=r"));
+}
+
+try {
+    run();
+    console.log("Invite test passed!");
+} catch (err) {
+    console.error("Invite test FAILED:", err);
+    process.exit(1);
+}
@@ -0,0 +1,49 @@
+// Kicks remove and ban a member, but must never leave a room without its host:
+// nobody may kick themselves or the host.
+//
+// Run with: npm run test:kick
+
+import assert from "assert";
+import { RoomManager } from "../server/RoomManager";
+
+// A host alone in its room cannot kick itself out and leave an empty room behind
+function testLoneHostKicksItself() {
+    const rooms = new RoomManager();
+    const room = rooms.createRoom("room-alone", "device-host", "client-host", "Host");
+
+    assert.throws(() => rooms.kick(room.roomId, "device-host", "device-host", "bye"), /CANNOT_TARGET_SELF/);
+    assert.deepStrictEqual(room.members.map(m => m.deviceId), ["device-host"]);
+    assert.deepStrictEqual(room.bans, []);
+    assert.deepStrictEqual(rooms.listRooms().map(r => r.roomId), ["room-alone"]);
+}
+
+// With other members around, the host can be kicked by nobody, itself included
+function testHostCannotBeKicked() {
+    const rooms = new RoomManager();
+    const room = rooms.createRoom("room-full", "device-host", "client-host", "Host");
+    rooms.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice");
+    rooms.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob");
+    rooms.setRole(room.roomId, "device-alice", "leader");
+
+    assert.throws(() => rooms.kick(room.roomId, "device-host", "device-host", "bye"), /CANNOT_TARGET_SELF/);
+    assert.throws(() => rooms.kick(room.roomId, "device-host", "device-alice", "coup"), /INSUFFICIENT_RANK/);
+    assert.strictEqual(room.hostDeviceId, "device-host");
+    assert.strictEqual(room.members.length, 3);
+    assert.deepStrictEqual(room.bans, []);
+
+    // Kicking anyone else still works
+    const ban = rooms.kick(room.roomId, "device-bob", "device-alice", "spam");
+    assert.strictEqual(ban.deviceId, "device-bob");
+    assert.deepStrictEqual(room.members.map(m => m.deviceId), ["device-host", "device-alice"]);
+    assert.strictEqual(room.hostDeviceId, "device-host");
+    assert.throws(() => rooms.joinRoomByCode(room.joinCode, "device-bob", "client-bob-2", "Bob"), /BANNED/);
+}
+
+try {
+    testLoneHostKicksItself();
+    testHostCannotBeKicked();
+    console.log("Kick test passed!");
+} catch (err) {
+    console.error("Kick test FAILED:", err);
+    process.exit(1);
+}
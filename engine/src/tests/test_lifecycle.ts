@@ -0,0 +1,78 @@
+// Room lifecycle: a locked room takes no new members (the lock survives a
+// migration), a closed room is gone for good, and rooms nobody touched for
+// the idle timeout are the ones picked for expiry.
+//
+// Run with: npm run test:lifecycle
+
+import assert from "assert";
+import { RoomManager } from "../server/RoomManager";
+import { restoreFromSnapshot } from "../states/restoreFromSnapshot";
+
+function testLock() {
+    const rooms = new RoomManager();
+    const room = rooms.createRoom("room-lock", "device-host", "client-host", "Host");
+    rooms.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice");
+
+    rooms.setLocked(room.roomId, true);
+    assert.throws(() => rooms.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob"), /ROOM_LOCKED/);
+    assert.throws(() => rooms.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob", true), /ROOM_LOCKED/);
+    assert.strictEqual(room.members.length, 2, "members already inside stay");
+
+    const migrated = new RoomManager();
+    restoreFromSnapshot(rooms.makeSnapshot(room.roomId)!, migrated);
+    assert.throws(() => migrated.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob"), /ROOM_LOCKED/);
+
+    rooms.setLocked(room.roomId, false);
+    rooms.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob");
+    assert.throws(() => rooms.setLocked("room-missing", true), /ROOM_NOT_FOUND/);
+}
+
+function testClose() {
+    const rooms = new RoomManager();
+    const room = rooms.createRoom("room-close", "device-host", "client-host", "Host");
+    rooms.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice");
+
+    // The closed room comes back with its members, so the server can tell them
+    const closed = rooms.closeRoom(room.roomId);
+    assert.deepStrictEqual(closed.members.map(m => m.deviceId), ["device-host", "device-alice"]);
+
+    assert.strictEqual(rooms.getRoom(room.roomId), undefined);
+    assert.strictEqual(rooms.findRoomByDevice("device-alice"), null);
+    assert.strictEqual(rooms.roomCount, 0);
+    assert.throws(() => rooms.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob"), /INVALID_JOIN_CODE/);
+    assert.throws(() => rooms.closeRoom(room.roomId), /ROOM_NOT_FOUND/);
+
+    // Its members are free to start over
+    rooms.createRoom("room-next", "device-alice", "client-alice", "Alice");
+}
+
+function testIdleExpiry() {
+    const IDLE_MS = 60000;
+    const rooms = new RoomManager();
+    const quiet = rooms.createRoom("room-quiet", "device-host", "client-host", "Host");
+    const busy = rooms.createRoom("room-busy", "device-other", "client-other", "Other");
+    const start = Date.now();
+    rooms.touch(quiet.roomId, start);
+    rooms.touch(busy.roomId, start);
+
+    assert.deepStrictEqual(rooms.findIdleRooms(IDLE_MS, start + IDLE_MS - 1), []);
+
+    rooms.touch(busy.roomId, start + IDLE_MS / 2);
+    assert.deepStrictEqual(rooms.findIdleRooms(IDLE_MS, start + IDLE_MS).map(r => r.roomId), ["room-quiet"]);
+    assert.strictEqual(rooms.findIdleRooms(IDLE_MS, start + IDLE_MS * 2).length, 2);
+
+    // Touching a room that is gone is harmless
+    rooms.closeRoom(quiet.roomId);
+    rooms.touch(quiet.roomId);
+    assert.deepStrictEqual(rooms.findIdleRooms(IDLE_MS, start + IDLE_MS * 2).map(r => r.roomId), ["room-busy"]);
+}
+
+try {
+    testLock();
+    testClose();
+    testIdleExpiry();
+    console.log("Lifecycle test passed!");
+} catch (err) {
+    console.error("Lifecycle test FAILED:", err);
+    process.exit(1);
+}
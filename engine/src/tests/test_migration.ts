@@ -0,0 +1,160 @@
+// End-to-end host migration scenario with the bundled Tic-Tac-Toe game:
+// two players get half way through a game, the host dies, and the game
+// has to finish on the peer elected as new host. Then that host leaves
+// on purpose and hands the room over to the last player.
+//
+// Run with: npm run test:migration
+
+import assert from "assert";
+import { runScenario, waitFor } from "./helpers";
+import { LanForgeServer } from "../server/Server";
+import { PeerNode } from "../peer/PeerNode";
+import { GameRegistry } from "../game/GameRegistry";
+import { MOVE_ACTION } from "../game/TurnBasedGame";
+import { TicTacToe, TicTacToeState } from "../games/TicTacToe";
+
+const HOST_PORT = 18100;
+const SCENARIO_TIMEOUT_MS = 30000;
+
+const registry = new GameRegistry();
+registry.register(new TicTacToe());
+
+function createPeer(deviceId: string, name: string, hostPort: number): PeerNode {
+    return new PeerNode({
+        deviceId,
+        clientName: name,
+        serverUrl: `ws://localhost:${HOST_PORT}`,
+        gameRegistry: registry,
+        hostPort,
+    });
+}
+
+async function playMove(sessionId: string, mover: PeerNode, peers: PeerNode[], cell: number, sequence: number) {
+    mover.sendGameAction(sessionId, MOVE_ACTION, { cell });
+    for (const peer of peers) {
+        await waitFor(`move ${sequence} (cell ${cell})`, () => (peer.getGameState(sessionId)?.sequence ?? 0) >= sequence);
+    }
+}
+
+async function run() {
+    /* Original host: a dedicated server plus its own peer */
+    const server = new LanForgeServer(registry, { matchDirectory: null });
+    server.start(HOST_PORT);
+
+    const host = createPeer("device-host", "Host", HOST_PORT);
+    await host.start();
+    host.createRoom("Migration Test");
+    const joinCode = await waitFor("room created", () => host.getRoomSnapshot()?.room.joinCode);
+
+    /* Players: Alice joined first, so she is next in line to host */
+    const alice = createPeer("device-alice", "Alice", HOST_PORT + 1);
+    const bob = createPeer("device-bob", "Bob", HOST_PORT + 2);
+    const players = [alice, bob];
+
+    await alice.start();
+    alice.joinRoom(joinCode);
+    await waitFor("alice joined", () => alice.getRoomSnapshot()?.room.members.length === 2);
+
+    await bob.start();
+    bob.joinRoom(joinCode);
+    await waitFor("bob joined", () => bob.getRoomSnapshot()?.room.members.length === 3);
+
+    /* Start a game between Alice and Bob */
+    alice.createSession("tictactoe");
+    const sessionId = await waitFor("session created", () => alice.getSessions()[0]?.sessionId);
+
+    bob.joinSession(sessionId);
+    await waitFor("bob seated", () => alice.getSessions()[0]?.players.length === 2);
+
+    // Lobby: Alice takes the first seat (X moves first), then both ready up
+    alice.assignSeat(sessionId, { seat: 0 });
+    await waitFor("alice took seat 0", () => alice.getSessions()[0]?.lobby.seats["device-alice"] === 0);
+
+    for (const peer of players) peer.setReady(sessionId);
+    await waitFor("everyone ready", () => alice.getSessions()[0]?.lobby.ready.length === 2);
+
+    alice.startSession(sessionId);
+    for (const peer of players) {
+        await waitFor("game started", () => peer.getGameState(sessionId));
+    }
+
+    /* Half a game: Alice takes 0 and 1, Bob takes 3 */
+    // Bob moving out of turn is rejected and leaves the board alone
+    bob.sendGameAction(sessionId, MOVE_ACTION, { cell: 4 });
+    await playMove(sessionId, alice, players, 0, 1);
+    const afterFirstMove = alice.getGameState(sessionId)!;
+    assert.strictEqual(afterFirstMove.sequence, 1);
+    assert.strictEqual((afterFirstMove.state as TicTacToeState).board[4], null);
+
+    await playMove(sessionId, bob, players, 3, 2);
+    await playMove(sessionId, alice, players, 1, 3);
+    console.log("Half game played, killing the host...");
+
+    /* Kill the host */
+    server.stop();
+    host.stop();
+
+    /* Bob finds Alice's server and both see the game where it was */
+    for (const peer of players) {
+        await waitFor("reconnected to the new host", () => {
+            const snapshot = peer.getRoomSnapshot();
+            return snapshot?.room.hostDeviceId === "device-alice"
+                && snapshot.identity.deviceIdToClientId["device-bob"] !== undefined
+                && snapshot.room.members.length === 2;
+        });
+    }
+
+    const resumed = alice.getGameState(sessionId);
+    assert.ok(resumed, "game survived the migration");
+    assert.strictEqual(resumed!.sequence, 3);
+    assert.strictEqual((resumed!.state as TicTacToeState).currentPlayer, "device-bob");
+    console.log("Game restored on the new host, finishing it...");
+
+    /* Finish the game on the new host: Alice completes the top row */
+    await playMove(sessionId, bob, players, 4, 4);
+    // The new host numbers its updates from scratch; its first one must not be dropped as stale
+    for (const peer of players) {
+        assert.notStrictEqual(peer.getGameState(sessionId)!.updateSeq, -1, "first update from the new host was applied");
+    }
+    await playMove(sessionId, alice, players, 2, 5);
+
+    for (const peer of players) {
+        const game = peer.getGameState(sessionId)!;
+        const state = game.state as TicTacToeState;
+        assert.strictEqual(game.gameOver, true);
+        assert.strictEqual(state.gameStatus, "won");
+        assert.strictEqual(state.winner, "device-alice");
+        assert.deepStrictEqual(state.board, [
+            "device-alice", "device-alice", "device-alice",
+            "device-bob", "device-bob", null,
+            null, null, null,
+        ]);
+    }
+
+    /* The new host records the result and replicates it to every player */
+    for (const peer of players) {
+        const [result] = await waitFor("match result replicated", () => peer.getMatchHistory().query({ moduleId: "tictactoe" }));
+        assert.strictEqual(result.gameId, resumed!.gameId);
+        assert.deepStrictEqual(result.winners, ["device-alice"]);
+        assert.deepStrictEqual(result.players.map(p => p.name), ["Alice", "Bob"]);
+        assert.ok(result.durationMs > 0, "duration counts from the start on the original host");
+
+        const [leader] = peer.getMatchHistory().getLeaderboard("tictactoe");
+        assert.strictEqual(leader.deviceId, "device-alice");
+        assert.strictEqual(leader.wins, 1);
+    }
+
+    /* Alice has to go: a planned handoff moves Bob to his own server without an election */
+    const leftAt = Date.now();
+    await alice.leaveAsHost();
+    await waitFor("bob took over", () => {
+        const snapshot = bob.getRoomSnapshot();
+        return snapshot?.room.hostDeviceId === "device-bob" && snapshot.room.members.length === 1;
+    });
+    assert.ok(Date.now() - leftAt < 5000, "handoff does not wait for discovery");
+    assert.strictEqual(bob.getSessions()[0]?.status, "finished");
+
+    bob.stop();
+}
+
+runScenario("Migration", run, SCENARIO_TIMEOUT_MS);
@@ -0,0 +1,92 @@
+// Role permission matrix: what each role is refused, acting on someone of equal
+// or higher rank, and rooms whose server changed the default matrix.
+//
+// Run with: npm run test:permissions
+
+import assert from "assert";
+import { RoomManager } from "../server/RoomManager";
+import { PermissionMatrix, refusalReason, resolvePermissions } from "../server/permissions";
+import { GameSessionManager } from "../game/GameSessionManager";
+import { GameRegistry } from "../game/GameRegistry";
+import { TicTacToe } from "../games/TicTacToe";
+import { MessageType } from "../network/MessageTypes";
+import { NetworkMessage } from "../network/Protocol";
+
+const registry = new GameRegistry();
+registry.register(new TicTacToe());
+
+function message(type: MessageType, payload: object = {}): NetworkMessage {
+    return { type, requestId: "req-1", payload } as NetworkMessage;
+}
+
+// Host, a leader, two members and a spectator
+function createRoom(permissions?: Partial<PermissionMatrix>) {
+    const rooms = new RoomManager(registry, permissions && resolvePermissions(permissions));
+    const room = rooms.createRoom("room-permissions", "device-host", "client-host", "Host");
+    for (const name of ["Lea", "Max", "Mia"]) {
+        rooms.joinRoomByCode(room.joinCode, `device-${name}`, `client-${name}`, name);
+    }
+    rooms.joinRoomByCode(room.joinCode, "device-Sam", "client-Sam", "Sam", true);
+    rooms.setRole(room.roomId, "device-Lea", "leader");
+
+    const refusal = (deviceId: string, type: MessageType, payload?: object) =>
+        refusalReason(room, room.members.find(m => m.deviceId === deviceId)!, message(type, payload));
+    return { room, refusal };
+}
+
+function testDefaultMatrix() {
+    const { room, refusal } = createRoom();
+
+    // Spectators may only chat
+    assert.strictEqual(refusal("device-Sam", MessageType.CHAT, { text: "hi" }), null);
+    assert.strictEqual(refusal("device-Sam", MessageType.SESSION_CREATE, { moduleId: "tictactoe" }), "PERMISSION_DENIED");
+
+    // Members start their own games but do not moderate
+    assert.strictEqual(refusal("device-Max", MessageType.SESSION_CREATE, { moduleId: "tictactoe" }), null);
+    assert.strictEqual(refusal("device-Max", MessageType.GAME_START, { moduleId: "tictactoe" }), "PERMISSION_DENIED", "quick start");
+    assert.strictEqual(refusal("device-Max", MessageType.KICK, { targetDeviceId: "device-Sam" }), "PERMISSION_DENIED");
+    assert.strictEqual(refusal("device-Max", MessageType.LOCK_ROOM, { locked: true }), "PERMISSION_DENIED");
+    assert.strictEqual(refusal("device-Max", MessageType.PROMOTE_SPECTATOR, { targetDeviceId: "device-Sam" }), "PERMISSION_DENIED");
+
+    // Leaders moderate those below them, but keep the host's own powers out of reach
+    assert.strictEqual(refusal("device-Lea", MessageType.KICK, { targetDeviceId: "device-Max" }), null);
+    assert.strictEqual(refusal("device-Lea", MessageType.KICK, { targetDeviceId: "device-host" }), "INSUFFICIENT_RANK");
+    assert.strictEqual(refusal("device-Lea", MessageType.KICK, { targetDeviceId: "device-Lea" }), "CANNOT_TARGET_SELF");
+    assert.strictEqual(refusal("device-Lea", MessageType.KICK, { targetDeviceId: "device-gone" }), "MEMBER_NOT_FOUND");
+    for (const type of [MessageType.SET_ROLE, MessageType.TRANSFER_HOST]) {
+        assert.strictEqual(refusal("device-Lea", type, { targetDeviceId: "device-Max", role: "leader" }), "PERMISSION_DENIED", type);
+    }
+    assert.strictEqual(refusal("device-Lea", MessageType.CLOSE_ROOM), "PERMISSION_DENIED");
+
+    // The host may do all of it
+    assert.strictEqual(refusal("device-host", MessageType.SET_ROLE, { targetDeviceId: "device-Lea", role: "member" }), null);
+    assert.strictEqual(refusal("device-host", MessageType.CLOSE_ROOM), null);
+
+    // A session is its owner's to start and arrange; anyone else needs to moderate
+    const sessions = new GameSessionManager(registry);
+    const session = sessions.createSession(room, "device-Max", "tictactoe", ["device-Max", "device-Mia"]);
+    const { sessionId } = session;
+    assert.strictEqual(refusal("device-Max", MessageType.GAME_START, { sessionId }), null);
+    assert.strictEqual(refusal("device-Mia", MessageType.GAME_START, { sessionId }), "PERMISSION_DENIED");
+    assert.strictEqual(refusal("device-Lea", MessageType.GAME_START, { sessionId }), null);
+    assert.strictEqual(refusal("device-Mia", MessageType.LOBBY_ASSIGN, { sessionId, seat: 0 }), null);
+    assert.strictEqual(refusal("device-Mia", MessageType.LOBBY_ASSIGN, { sessionId, targetDeviceId: "device-Max", seat: 1 }), "PERMISSION_DENIED");
+}
+
+function testCustomMatrix() {
+    // An event where members only play what the staff starts, and spectators keep quiet
+    const { refusal } = createRoom({ member: ["chat"], spectator: [] });
+
+    assert.strictEqual(refusal("device-Max", MessageType.SESSION_CREATE, { moduleId: "tictactoe" }), "PERMISSION_DENIED");
+    assert.strictEqual(refusal("device-Sam", MessageType.CHAT, { text: "hi" }), "PERMISSION_DENIED");
+    assert.strictEqual(refusal("device-Lea", MessageType.SESSION_CREATE, { moduleId: "tictactoe" }), null, "other rows keep their defaults");
+}
+
+try {
+    testDefaultMatrix();
+    testCustomMatrix();
+    console.log("Permissions test passed!");
+} catch (err) {
+    console.error("Permissions test FAILED:", err);
+    process.exit(1);
+}
@@ -0,0 +1,84 @@
+// Display names and profiles: one trimmed, length-limited rule for every way a
+// name gets in (HELLO, create, join, rename), names stay unique per room, and
+// a profile change survives a migration.
+//
+// Run with: npm run test:profile
+
+import assert from "assert";
+import { RoomManager } from "../server/RoomManager";
+import { decodeMessage } from "../network/Encoder";
+import { MessageType } from "../network/MessageTypes";
+import { MAX_NAME_LENGTH, normalizeName } from "../utils/names";
+import { restoreFromSnapshot } from "../states/restoreFromSnapshot";
+
+const LONGEST = "x".repeat(MAX_NAME_LENGTH);
+const TOO_LONG = "x".repeat(MAX_NAME_LENGTH + 1);
+
+function testNormalizeName() {
+    assert.strictEqual(normalizeName("  Alice "), "Alice");
+    assert.strictEqual(normalizeName(LONGEST), LONGEST);
+    assert.strictEqual(normalizeName(`  ${LONGEST}  `), LONGEST, "the limit counts after trimming");
+    for (const name of ["", "   ", TOO_LONG, 42, null, undefined]) {
+        assert.strictEqual(normalizeName(name), null, `refuses ${JSON.stringify(name)}`);
+    }
+}
+
+function testEntryPoints() {
+    const rooms = new RoomManager();
+    assert.throws(() => rooms.createRoom("room-bad", "device-host", "client-host", "   "), /INVALID_NAME/);
+
+    const room = rooms.createRoom("room-names", "device-host", "client-host", " Host ");
+    assert.strictEqual(room.members[0].name, "Host");
+
+    assert.throws(() => rooms.joinRoomByCode(room.joinCode, "device-alice", "client-alice", TOO_LONG), /INVALID_NAME/);
+    assert.throws(() => rooms.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Host  "), /NAME_CONFLICT/);
+    rooms.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice");
+
+    // The same rule on the wire, for HELLO and profile updates alike
+    const refusedField = (type: MessageType, payload: object) => {
+        const result = decodeMessage(JSON.stringify({ type, requestId: "req-1", payload }));
+        return result.ok ? null : result.field;
+    };
+    assert.strictEqual(refusedField(MessageType.HELLO, { deviceId: "device-bob", name: " " }), "name");
+    assert.strictEqual(refusedField(MessageType.HELLO, { deviceId: "device-bob", name: ` ${LONGEST} ` }), null);
+    assert.strictEqual(refusedField(MessageType.UPDATE_PROFILE, { name: TOO_LONG }), "name");
+}
+
+function testUpdateProfile() {
+    const rooms = new RoomManager();
+    const room = rooms.createRoom("room-profile", "device-host", "client-host", "Host");
+    rooms.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice");
+    const alice = room.members.find(m => m.deviceId === "device-alice")!;
+
+    assert.throws(() => rooms.updateProfile("device-alice", { name: " Host" }), /NAME_CONFLICT/);
+    assert.throws(() => rooms.updateProfile("device-alice", { name: "" }), /INVALID_NAME/);
+
+    // A bad avatar leaves the whole update unapplied
+    assert.throws(() => rooms.updateProfile("device-alice", { name: "Ally", avatar: { color: "red" } }), /INVALID_AVATAR/);
+    assert.strictEqual(alice.name, "Alice");
+
+    rooms.updateProfile("device-alice", { name: " Ally ", avatar: { color: "#ff8800" } });
+    rooms.updateProfile("device-alice", { avatar: { emoji: "🦊" } });
+    assert.strictEqual(alice.name, "Ally");
+    assert.deepStrictEqual(alice.avatar, { color: "#ff8800", emoji: "🦊" });
+
+    // The new host knows the member by its new profile
+    const migrated = new RoomManager();
+    restoreFromSnapshot(rooms.makeSnapshot(room.roomId)!, migrated);
+    const restored = migrated.getRoom(room.roomId)!.members.find(m => m.deviceId === "device-alice")!;
+    assert.strictEqual(restored.name, "Ally");
+    assert.deepStrictEqual(restored.avatar, alice.avatar);
+
+    rooms.updateProfile("device-alice", { avatar: null });
+    assert.strictEqual(alice.avatar, undefined);
+}
+
+try {
+    testNormalizeName();
+    testEntryPoints();
+    testUpdateProfile();
+    console.log("Profile test passed!");
+} catch (err) {
+    console.error("Profile test FAILED:", err);
+    process.exit(1);
+}
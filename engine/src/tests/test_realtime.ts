@@ -0,0 +1,135 @@
+// Real-time games run inside the host's tick loop, so a module that throws
+// must only cost the input (or the game) it failed on, never the host process
+// with every room on it.
+//
+// Run with: npm run test:realtime
+
+import assert from "assert";
+import { runScenario, waitFor } from "./helpers";
+import { LanForgeServer } from "../server/Server";
+import { PeerNode } from "../peer/PeerNode";
+import { RoomManager } from "../server/RoomManager";
+import { GameSessionManager } from "../game/GameSessionManager";
+import { GameRegistry } from "../game/GameRegistry";
+import { MatchHistory } from "../game/MatchHistory";
+import { GameAction, RealtimeGameModule } from "../game/types";
+
+const HOST_PORT = 18200;
+const SCENARIO_TIMEOUT_MS = 20000;
+
+type CounterState = {
+    total: number;
+    tick: number;
+};
+
+// Adds up "add" inputs; throws on "boom" inputs, and in step() once `failAtTick` is reached.
+class FlakyCounter implements RealtimeGameModule<CounterState> {
+    readonly type = "REALTIME";
+    readonly version = 1;
+    readonly tickRate = 20;
+    readonly sendRate = 10;
+
+    constructor(readonly id: string, private readonly failAtTick: number | null) { }
+
+    getInitialState(): CounterState {
+        return { total: 0, tick: 0 };
+    }
+
+    validateAction(_state: CounterState, action: GameAction): string | null {
+        return action.actionType === "add" || action.actionType === "boom" ? null : "UNKNOWN_ACTION";
+    }
+
+    applyAction(state: CounterState, action: GameAction): CounterState {
+        if (action.actionType === "boom") throw new Error("module bug");
+        return { ...state, total: state.total + (action.data as number) };
+    }
+
+    step(state: CounterState, tick: number): CounterState {
+        if (this.failAtTick !== null && tick >= this.failAtTick) throw new Error("module bug");
+        return { ...state, tick };
+    }
+
+    isGameOver(): boolean {
+        return false;
+    }
+
+    getSnapshot(state: CounterState): unknown {
+        return { ...state };
+    }
+
+    restoreFromSnapshot(snapshot: unknown): CounterState {
+        return snapshot as CounterState;
+    }
+}
+
+const registry = new GameRegistry();
+registry.register(new FlakyCounter("flaky-input", null));
+registry.register(new FlakyCounter("flaky-step", 5));
+
+// An input the module fails on is dropped; the rest of the tick still applies
+function testFailingInput() {
+    const rooms = new RoomManager(registry);
+    const sessions = new GameSessionManager(registry);
+    const room = rooms.createRoom("room-flaky", "device-host", "client-host", "Host");
+
+    const session = sessions.createSession(room, "device-host", "flaky-input", ["device-host"]);
+    sessions.setReady(room, session.sessionId, "device-host", true);
+    sessions.startGame(room, session.sessionId);
+
+    sessions.queueInput(room, session.sessionId, "device-host", "boom", null, 1, 1);
+    sessions.queueInput(room, session.sessionId, "device-host", "add", 3, 1, 2);
+    sessions.stepTick(room, session.sessionId);
+
+    assert.strictEqual(session.status, "running");
+    assert.deepStrictEqual(session.state, { total: 3, tick: 1 });
+    assert.strictEqual(session.sequence, 1, "only the good input counts");
+    assert.strictEqual(session.lastInputSeq["device-host"], 2, "the dropped input is acknowledged too");
+}
+
+// A step() that throws ends that game; the host keeps serving the room
+async function testFailingStep() {
+    const history = new MatchHistory(null);
+    const server = new LanForgeServer(registry, { matchDirectory: null, history });
+    server.start(HOST_PORT);
+
+    const host = new PeerNode({
+        deviceId: "device-host",
+        clientName: "Host",
+        serverUrl: `ws://localhost:${HOST_PORT}`,
+        gameRegistry: registry,
+        hostPort: HOST_PORT + 1,
+    });
+    const guest = new PeerNode({
+        deviceId: "device-guest",
+        clientName: "Guest",
+        serverUrl: `ws://localhost:${HOST_PORT}`,
+        gameRegistry: registry,
+        hostPort: HOST_PORT + 2,
+    });
+
+    try {
+        await host.start();
+        host.createRoom("Flaky Test");
+        const joinCode = await waitFor("room created", () => host.getRoomSnapshot()?.room.joinCode);
+
+        host.startGame("flaky-step");
+        const session = await waitFor("game ended", () => host.getSessions().find(s => s.status === "finished"));
+        assert.strictEqual(host.getGameState(session.sessionId)?.gameOver, true);
+        assert.strictEqual(history.query({ moduleId: "flaky-step" }).length, 0, "no match is recorded");
+
+        await guest.start();
+        guest.joinRoom(joinCode);
+        await waitFor("guest joined after the failure", () => host.getRoomSnapshot()?.room.members.length === 2);
+    } finally {
+        guest.stop();
+        host.stop();
+        server.stop();
+    }
+}
+
+async function run() {
+    testFailingInput();
+    await testFailingStep();
+}
+
+runScenario("Realtime", run, SCENARIO_TIMEOUT_MS);
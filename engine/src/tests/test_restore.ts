@@ -0,0 +1,68 @@
+// A room restored on a new host must keep its members' seniority (host election
+// breaks ties by join order, so members joining after the migration have to rank
+// behind everyone who was already there) and keep enforcing its password.
+//
+// Run with: npm run test:restore
+
+import assert from "assert";
+import { RoomManager } from "../server/RoomManager";
+import { restoreFromSnapshot } from "../states/restoreFromSnapshot";
+
+function testJoinOrder() {
+    /* The original host's room: Alice joined before Bob */
+    const original = new RoomManager();
+    const room = original.createRoom("room-restore", "device-host", "client-host", "Host");
+    original.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice");
+    original.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob");
+
+    /* Restored on a fresh server, whose own counter starts at 0 */
+    const migrated = new RoomManager();
+    restoreFromSnapshot(original.makeSnapshot(room.roomId)!, migrated);
+    const restored = migrated.getRoom(room.roomId)!;
+
+    // Carol joins after the migration and must come last
+    migrated.joinRoomByCode(restored.joinCode, "device-carol", "client-carol", "Carol");
+    const joinOrder = (deviceId: string) => restored.members.find(m => m.deviceId === deviceId)!.joinOrder;
+    assert.ok(joinOrder("device-carol") > joinOrder("device-bob"), "new joiner ranks behind restored members");
+
+    // Host after host leaves: Alice, then Bob, and only then Carol
+    migrated.leaveRoom("device-host");
+    assert.strictEqual(restored.hostDeviceId, "device-alice");
+    migrated.leaveRoom("device-alice");
+    assert.strictEqual(restored.hostDeviceId, "device-bob");
+}
+
+// Any member may end up restoring the room, not only the one next in line
+function testPassword() {
+    const original = new RoomManager();
+    const room = original.createRoom("room-locked", "device-host", "client-host", "Host", { password: "hunter2" });
+    original.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice", false, "hunter2");
+    original.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob", false, "hunter2");
+
+    // Bob is not the successor, and his copy is restored anyway (the successor failed)
+    const snapshot = original.makeSnapshot(room.roomId, { deviceId: "device-bob", isSuccessor: false })!;
+    assert.ok(!JSON.stringify(snapshot).includes("hunter2"), "the password itself is never replicated");
+
+    const migrated = new RoomManager();
+    restoreFromSnapshot(snapshot, migrated);
+    assert.throws(() => migrated.joinRoomByCode(room.joinCode, "device-eve", "client-eve", "Eve"), /INVALID_PASSWORD/);
+    assert.throws(() => migrated.joinRoomByCode(room.joinCode, "device-eve", "client-eve", "Eve", false, "guess"), /INVALID_PASSWORD/);
+    migrated.joinRoomByCode(room.joinCode, "device-carol", "client-carol", "Carol", false, "hunter2");
+
+    // A snapshot that says there is a password but cannot check it keeps new joiners out
+    const withoutHash = original.makeSnapshot(room.roomId)!;
+    delete withoutHash.room.settings!.passwordHash;
+    const fallback = new RoomManager();
+    restoreFromSnapshot(withoutHash, fallback);
+    assert.strictEqual(fallback.getRoom(room.roomId)!.locked, true);
+    assert.throws(() => fallback.joinRoomByCode(room.joinCode, "device-eve", "client-eve", "Eve"), /ROOM_LOCKED/);
+}
+
+try {
+    testJoinOrder();
+    testPassword();
+    console.log("Restore test passed!");
+} catch (err) {
+    console.error("Restore test FAILED:", err);
+    process.exit(1);
+}
@@ -0,0 +1,79 @@
+// Resuming a seat after a dropped connection or a migration: a restored member
+// only goes back to the device holding its resume token, and a member restored
+// without a token hash cannot be claimed by whoever knows its deviceId.
+//
+// Run with: npm run test:resume
+
+import assert from "assert";
+import WebSocket from "ws";
+import { runScenario } from "./helpers";
+import { LanForgeServer } from "../server/Server";
+import { RoomManager } from "../server/RoomManager";
+import { MessageType } from "../network/MessageTypes";
+import { NetworkMessage } from "../network/Protocol";
+import { ErrorCode } from "../network/ErrorCodes";
+import { decodeMessage, serializeMessage } from "../network/Encoder";
+import { createUniqueId, hashToken } from "../utils/id";
+
+const PORT = 18400;
+const SCENARIO_TIMEOUT_MS = 15000;
+
+// Connects, says HELLO and returns the server's answer: WELCOME or ERROR
+function hello(deviceId: string, resumeToken?: string): Promise<NetworkMessage> {
+    return new Promise((resolve, reject) => {
+        const ws = new WebSocket(`ws://localhost:${PORT}`);
+        ws.on("error", reject);
+        ws.on("open", () => {
+            ws.send(serializeMessage({
+                type: MessageType.HELLO,
+                requestId: createUniqueId("req-"),
+                clientId: "pending",
+                payload: { deviceId, name: "Claimant", resumeToken },
+            }));
+        });
+        ws.on("message", (data) => {
+            const result = decodeMessage(data.toString());
+            if (!result.ok) return;
+            if (result.message.type === MessageType.WELCOME || result.message.type === MessageType.ERROR) {
+                ws.close();
+                resolve(result.message);
+            }
+        });
+    });
+}
+
+function errorCode(message: NetworkMessage): number | undefined {
+    return message.type === MessageType.ERROR ? message.payload.code : undefined;
+}
+
+async function run() {
+    /* The room as its old host knew it: Alice's token was issued there, Bob's hash got lost */
+    const original = new RoomManager();
+    const room = original.createRoom("room-resume", "device-host", "client-host", "Host");
+    original.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice");
+    original.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob");
+    original.setResumeTokenHash("device-host", hashToken("token-host"));
+    original.setResumeTokenHash("device-alice", hashToken("token-alice"));
+
+    const server = new LanForgeServer(undefined, { matchDirectory: null });
+    await server.start(PORT);
+    server.restoreSnapshot(original.makeSnapshot(room.roomId)!);
+
+    try {
+        assert.strictEqual(errorCode(await hello("device-alice")), ErrorCode.INVALID_RESUME_TOKEN);
+        assert.strictEqual(errorCode(await hello("device-alice", "token-guess")), ErrorCode.INVALID_RESUME_TOKEN);
+        assert.strictEqual(errorCode(await hello("device-bob")), ErrorCode.INVALID_RESUME_TOKEN);
+        assert.strictEqual(errorCode(await hello("device-bob", "token-guess")), ErrorCode.INVALID_RESUME_TOKEN);
+
+        const welcome = await hello("device-alice", "token-alice");
+        assert.strictEqual(welcome.type, MessageType.WELCOME);
+
+        // A device that is in no room gets a fresh token
+        const stranger = await hello("device-carol");
+        assert.ok(stranger.type === MessageType.WELCOME && stranger.payload.resumeToken);
+    } finally {
+        server.stop();
+    }
+}
+
+runScenario("Resume", run, SCENARIO_TIMEOUT_MS);
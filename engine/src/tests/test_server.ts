@@ -1,13 +1,41 @@
 // Will create this and upload once your work is done...
 // FOr now you all create your own tests and run
 
+import assert from "assert";
 import WebSocket from "ws";
 import { LanForgeServer } from "../server/Server";
 import { MessageType } from "../network/MessageTypes";
 import { NetworkMessage } from "../network/Protocol";
 import { decodeMessage, serializeMessage } from "../network/Encoder";
+import { ErrorCode, errorCodeFor } from "../network/ErrorCodes";
 import { createUniqueId } from "../utils/id";
 
+// Malformed messages are refused with the code the server sends back, naming the bad field
+function testDecodeErrors() {
+    const refusal = (message: object) => {
+        const result = decodeMessage(JSON.stringify({ requestId: "req-1", clientId: "test-client", ...message }));
+        assert.ok(!result.ok, `refuses ${JSON.stringify(message).slice(0, 60)}`);
+        return { code: errorCodeFor(result.error), field: result.field };
+    };
+
+    // A missing field
+    assert.deepStrictEqual(refusal({ type: MessageType.JOIN_ROOM, payload: {} }), { code: ErrorCode.INVALID_PAYLOAD, field: "joinCode" });
+    // A field of the wrong type
+    assert.deepStrictEqual(refusal({ type: MessageType.LOCK_ROOM, payload: { locked: "yes" } }), { code: ErrorCode.INVALID_PAYLOAD, field: "locked" });
+    // An over-long string
+    assert.deepStrictEqual(refusal({ type: MessageType.CHAT, payload: { text: "x".repeat(501) } }), { code: ErrorCode.INVALID_PAYLOAD, field: "text" });
+    // A type nobody knows
+    assert.deepStrictEqual(refusal({ type: "TELEPORT", payload: {} }), { code: ErrorCode.UNKNOWN_MESSAGE_TYPE, field: undefined });
+}
+
+try {
+    testDecodeErrors();
+    console.log("Decode errors test passed!");
+} catch (err) {
+    console.error("Decode errors test FAILED:", err);
+    process.exit(1);
+}
+
 const PORT = 8080;
 const server = new LanForgeServer();
 
@@ -56,14 +84,19 @@ setTimeout(() => {
     });
 
     ws.on("message", (data: any) => {
-        const msg = decodeMessage(data.toString());
+        const result = decodeMessage(data.toString());
+        if (!result.ok) {
+            console.error("Undecodable message:", result.error, result.field ?? "");
+            return;
+        }
+        const msg = result.message;
         console.log("Received:", msg);
 
-        if (msg?.type === MessageType.PONG) {
+        if (msg.type === MessageType.PONG) {
             console.log("PONG received, test passed!");
-        } else if (msg?.type === MessageType.ROOM_STATE) {
+        } else if (msg.type === MessageType.ROOM_STATE) {
             console.log("ROOM_STATE received:", msg.payload);
-        } else if (msg?.type === MessageType.ERROR) {
+        } else if (msg.type === MessageType.ERROR) {
             console.error("ERROR received:", msg.payload);
         }
     });
@@ -0,0 +1,140 @@
+// Game sessions inside a room: several tables run side by side, a game only
+// starts once its lobby is ready and its seats and teams add up, and a game
+// that cannot start must not leave a half-built session behind.
+//
+// Run with: npm run test:sessions
+
+import assert from "assert";
+import { RoomManager } from "../server/RoomManager";
+import { GameSessionManager } from "../game/GameSessionManager";
+import { GameRegistry } from "../game/GameRegistry";
+import { GameModule } from "../game/types";
+import { TicTacToe } from "../games/TicTacToe";
+import { restoreFromSnapshot } from "../states/restoreFromSnapshot";
+
+// Two teams of one or two; the state only records who plays for which team.
+class TeamGame implements GameModule<Record<string, number>> {
+    readonly id = "team-game";
+    readonly version = 1;
+    readonly type = "TURN_BASED";
+    readonly minPlayers = 2;
+    readonly maxPlayers = 4;
+    readonly teams = { count: 2, maxSize: 2 };
+
+    getInitialState(_players: string[], teams: Record<string, number> | undefined) {
+        return { ...teams };
+    }
+    validateAction() { return "NO_ACTIONS"; }
+    applyAction(state: Record<string, number>) { return state; }
+    isGameOver() { return false; }
+    getSnapshot(state: Record<string, number>) { return { ...state }; }
+    restoreFromSnapshot(snapshot: unknown) { return snapshot as Record<string, number>; }
+}
+
+const registry = new GameRegistry();
+registry.register(new TicTacToe());
+registry.register(new TeamGame());
+
+function createRoom(players: string[]) {
+    const rooms = new RoomManager(registry);
+    const sessions = new GameSessionManager(registry);
+    const [host, ...others] = players;
+    const room = rooms.createRoom("room-sessions", `device-${host}`, `client-${host}`, host);
+    for (const name of others) {
+        rooms.joinRoomByCode(room.joinCode, `device-${name}`, `client-${name}`, name);
+    }
+    return { rooms, room, sessions };
+}
+
+// A quick start the module refuses is rolled back, so the players can start another
+function testQuickStartRollback() {
+    const { room, sessions } = createRoom(["Host", "Alice", "Bob"]);
+    const everyone = room.members.map(m => m.deviceId);
+
+    assert.throws(() => sessions.quickStart(room, "device-Host", "tictactoe", everyone), /TOO_MANY_PLAYERS/);
+    assert.strictEqual(room.sessions.length, 0, "no session is left behind");
+
+    assert.throws(() => sessions.quickStart(room, "device-Host", "tictactoe", ["device-Host"]), /NOT_ENOUGH_PLAYERS/);
+    assert.strictEqual(room.sessions.length, 0);
+
+    // The players are free for a game that can start
+    const session = sessions.quickStart(room, "device-Host", "tictactoe", ["device-Host", "device-Alice"]);
+    assert.strictEqual(session.status, "running");
+    assert.deepStrictEqual(room.sessions.map(s => s.sessionId), [session.sessionId]);
+}
+
+// Two tables in one room, each with its own players
+function testConcurrentSessions() {
+    const { room, sessions } = createRoom(["Host", "Alice", "Bob", "Carol"]);
+
+    const first = sessions.quickStart(room, "device-Host", "tictactoe", ["device-Host", "device-Alice"]);
+    const second = sessions.quickStart(room, "device-Bob", "tictactoe", ["device-Bob", "device-Carol"]);
+    assert.strictEqual(room.sessions.length, 2);
+    assert.notStrictEqual(first.gameId, second.gameId);
+
+    // A seated player cannot sit at a second table while its game runs
+    assert.throws(() => sessions.createSession(room, "device-Alice", "tictactoe"), /ALREADY_IN_SESSION/);
+}
+
+// Ready-check and seats: nobody starts before everyone is ready, and the lobby survives a migration
+function testReadyCheckAndSeats() {
+    const { rooms, room, sessions } = createRoom(["Host", "Alice"]);
+    const session = sessions.createSession(room, "device-Host", "tictactoe");
+    sessions.joinSession(room, session.sessionId, "device-Alice", false);
+
+    sessions.assignSeat(room, session.sessionId, "device-Alice", { seat: 0 });
+    assert.throws(() => sessions.assignSeat(room, session.sessionId, "device-Host", { seat: 0 }), /SEAT_TAKEN/);
+    assert.throws(() => sessions.assignSeat(room, session.sessionId, "device-Host", { seat: 2 }), /INVALID_SEAT/);
+
+    sessions.setReady(room, session.sessionId, "device-Alice", true);
+    assert.throws(() => sessions.startGame(room, session.sessionId), /PLAYERS_NOT_READY/);
+
+    // Moving a player takes its ready back
+    sessions.setReady(room, session.sessionId, "device-Host", true);
+    sessions.assignSeat(room, session.sessionId, "device-Host", { seat: 1 });
+    assert.deepStrictEqual(session.lobby.ready, ["device-Alice"]);
+    sessions.setReady(room, session.sessionId, "device-Host", true);
+
+    const migrated = new RoomManager(registry);
+    restoreFromSnapshot(rooms.makeSnapshot(room.roomId)!, migrated, registry);
+    assert.deepStrictEqual(migrated.getRoom(room.roomId)!.sessions[0].lobby, session.lobby);
+
+    // Seat order is play order: Alice took the first seat
+    sessions.startGame(room, session.sessionId);
+    assert.deepStrictEqual(session.players, ["device-Alice", "device-Host"]);
+    assert.throws(() => sessions.setReady(room, session.sessionId, "device-Host", false), /SESSION_IN_PROGRESS/);
+}
+
+// Teams: chosen teams are kept, everyone else fills the smallest team, and the sizes must add up
+function testTeams() {
+    const { room, sessions } = createRoom(["Host", "Alice", "Bob"]);
+    const everyone = room.members.map(m => m.deviceId);
+    const session = sessions.createSession(room, "device-Host", "team-game", everyone);
+
+    assert.throws(() => sessions.assignSeat(room, session.sessionId, "device-Host", { team: 2 }), /INVALID_TEAM/);
+    sessions.assignSeat(room, session.sessionId, "device-Host", { team: 0 });
+    sessions.assignSeat(room, session.sessionId, "device-Alice", { team: 0 });
+    assert.throws(() => sessions.assignSeat(room, session.sessionId, "device-Bob", { team: 0 }), /TEAM_FULL/);
+
+    // Bob leaves: nobody is left for team 1
+    sessions.leaveSession(room, session.sessionId, "device-Bob");
+    for (const id of session.players) sessions.setReady(room, session.sessionId, id, true);
+    assert.throws(() => sessions.startGame(room, session.sessionId), /TEAMS_UNBALANCED/);
+    assert.strictEqual(session.status, "waiting");
+
+    sessions.joinSession(room, session.sessionId, "device-Bob", false);
+    for (const id of session.players) sessions.setReady(room, session.sessionId, id, true);
+    sessions.startGame(room, session.sessionId);
+    assert.deepStrictEqual(session.state, { "device-Host": 0, "device-Alice": 0, "device-Bob": 1 });
+}
+
+try {
+    testQuickStartRollback();
+    testConcurrentSessions();
+    testReadyCheckAndSeats();
+    testTeams();
+    console.log("Sessions test passed!");
+} catch (err) {
+    console.error("Sessions test FAILED:", err);
+    process.exit(1);
+}
@@ -0,0 +1,84 @@
+// Spectators watch without playing: they may join a full room, but never take
+// a seat, send game actions or get elected host while a player is left.
+//
+// Run with: npm run test:spectators
+
+import assert from "assert";
+import { RoomManager } from "../server/RoomManager";
+import { GameSessionManager } from "../game/GameSessionManager";
+import { GameRegistry } from "../game/GameRegistry";
+import { MOVE_ACTION } from "../game/TurnBasedGame";
+import { TicTacToe } from "../games/TicTacToe";
+
+const registry = new GameRegistry();
+registry.register(new TicTacToe());
+
+// Host and Alice play; Sam watches, and joined before Alice did
+function createRoom() {
+    const rooms = new RoomManager(registry);
+    const sessions = new GameSessionManager(registry);
+    const room = rooms.createRoom("room-spectators", "device-host", "client-host", "Host", { maxPlayers: 2 });
+    rooms.joinRoomByCode(room.joinCode, "device-sam", "client-sam", "Sam", true);
+    rooms.joinRoomByCode(room.joinCode, "device-alice", "client-alice", "Alice");
+    return { rooms, sessions, room };
+}
+
+function testJoinBeyondLimit() {
+    const { rooms, room } = createRoom();
+
+    assert.throws(() => rooms.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob"), /ROOM_FULL/);
+    rooms.joinRoomByCode(room.joinCode, "device-bob", "client-bob", "Bob", true);
+    assert.deepStrictEqual(room.members.map(m => m.role), ["host", "spectator", "member", "spectator"]);
+
+    // Promotion makes a player of a spectator, but only while there is room for one
+    assert.throws(() => rooms.promoteSpectator(room.roomId, "device-sam"), /ROOM_FULL/);
+    assert.throws(() => rooms.promoteSpectator(room.roomId, "device-alice"), /NOT_A_SPECTATOR/);
+    rooms.leaveRoom("device-alice");
+    rooms.promoteSpectator(room.roomId, "device-sam");
+    assert.strictEqual(room.members.find(m => m.deviceId === "device-sam")!.role, "member");
+}
+
+function testReadOnly() {
+    const { sessions, room } = createRoom();
+
+    assert.throws(() => sessions.createSession(room, "device-sam", "tictactoe"), /SPECTATOR_READ_ONLY/);
+    assert.throws(() => sessions.quickStart(room, "device-host", "tictactoe", ["device-host", "device-sam"]), /SPECTATOR_READ_ONLY/);
+
+    const session = sessions.createSession(room, "device-host", "tictactoe");
+    assert.throws(() => sessions.joinSession(room, session.sessionId, "device-sam", false), /SPECTATOR_READ_ONLY/);
+    sessions.joinSession(room, session.sessionId, "device-sam", true);
+    sessions.joinSession(room, session.sessionId, "device-alice", false);
+
+    for (const player of ["device-host", "device-alice"]) {
+        sessions.setReady(room, session.sessionId, player, true);
+    }
+    assert.throws(() => sessions.setReady(room, session.sessionId, "device-sam", true), /NOT_IN_SESSION/);
+    sessions.startGame(room, session.sessionId);
+
+    // Watching the game is fine, playing in it is not
+    assert.throws(() => sessions.applyAction(room, session.sessionId, "device-sam", MOVE_ACTION, { cell: 0 }), /NOT_A_PLAYER/);
+    assert.strictEqual(session.sequence, 0);
+}
+
+function testElection() {
+    const { rooms, room } = createRoom();
+
+    // Sam joined before Alice, yet the player is next in line
+    assert.strictEqual(rooms.nextHostCandidate(room.roomId), "device-alice");
+    rooms.leaveRoom("device-host");
+    assert.strictEqual(room.hostDeviceId, "device-alice");
+
+    // With no player left, a spectator keeps the room alive
+    rooms.leaveRoom("device-alice");
+    assert.strictEqual(room.hostDeviceId, "device-sam");
+}
+
+try {
+    testJoinBeyondLimit();
+    testReadOnly();
+    testElection();
+    console.log("Spectators test passed!");
+} catch (err) {
+    console.error("Spectators test FAILED:", err);
+    process.exit(1);
+}
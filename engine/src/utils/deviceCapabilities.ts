@@ -0,0 +1,37 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DeviceCapabilities } from "../network/payloads";
+
+const POWER_SUPPLY_DIR = "/sys/class/power_supply";
+
+// Capabilities of this device, as reported in HELLO.
+export function detectCapabilities(): DeviceCapabilities {
+    return {
+        memoryMb: Math.floor(os.totalmem() / (1024 * 1024)),
+        cpuCores: os.cpus().length,
+        platform: process.platform,
+        battery: readBattery(),
+    };
+}
+
+// Battery state where the OS exposes it without extra tools (Linux sysfs); null otherwise.
+function readBattery(): DeviceCapabilities["battery"] {
+    if (process.platform !== "linux" || !fs.existsSync(POWER_SUPPLY_DIR)) return null;
+
+    try {
+        const battery = fs.readdirSync(POWER_SUPPLY_DIR).find(name => name.startsWith("BAT"));
+        if (!battery) return null;
+
+        const read = (file: string) => fs.readFileSync(path.join(POWER_SUPPLY_DIR, battery, file), "utf8").trim();
+        const capacity = parseInt(read("capacity"), 10);
+        const status = read("status");
+
+        return {
+            level: Number.isNaN(capacity) ? 1 : Math.min(Math.max(capacity / 100, 0), 1),
+            charging: status === "Charging" || status === "Full" || status === "Not charging",
+        };
+    } catch {
+        return null;
+    }
+}
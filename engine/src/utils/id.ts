@@ -1,5 +1,26 @@
-import { randomUUID } from "crypto";
+import { createHash, randomBytes, randomUUID, scryptSync, timingSafeEqual } from "crypto";
+
+// Salted hash of a room password; replicated instead of the password itself
+export interface PasswordHash {
+    salt: string;   // base64
+    hash: string;   // base64 scrypt of the password with `salt`
+}
 
 export function createUniqueId(prefix: string = ""): string {
     return `${prefix}${randomUUID()}`;
 }
+
+// SHA-256 of a secret token, safe to replicate where the token itself is not
+export function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+export function hashPassword(password: string, salt: string = randomBytes(16).toString("base64")): PasswordHash {
+    return { salt, hash: scryptSync(password, salt, 32).toString("base64") };
+}
+
+export function checkPassword(password: string, passwordHash: PasswordHash): boolean {
+    const expected = Buffer.from(passwordHash.hash, "base64");
+    const actual = scryptSync(password, passwordHash.salt, 32);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,11 @@
+// Longest member display name, counted after trimming
+export const MAX_NAME_LENGTH = 32;
+
+// Display name as it is stored: trimmed, 1 to MAX_NAME_LENGTH characters.
+// Null if `name` cannot be one. Used for HELLO, joins and profile updates alike.
+export function normalizeName(name: unknown): string | null {
+    if (typeof name !== "string") return null;
+
+    const trimmed = name.trim();
+    return trimmed.length > 0 && trimmed.length <= MAX_NAME_LENGTH ? trimmed : null;
+}